@@ -0,0 +1,143 @@
+/**
+ * App Store Connect API key resolution and a minimal API client
+ * Reference: https://developer.apple.com/documentation/appstoreconnectapi
+ */
+
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { CommandError } from '../utils/errors.js';
+import { resolveSubmitProfile } from '../project/config-profiles.js';
+import type { ObsydianConfig, Platform } from '../project/config.js';
+
+const API_BASE_URL = 'https://api.appstoreconnect.apple.com';
+
+// Tokens may live at most 20 minutes
+const TOKEN_LIFETIME_SECONDS = 20 * 60;
+
+export interface ASCCredentials {
+  keyPath: string;
+  keyId: string;
+  issuerId: string;
+}
+
+/**
+ * Find the API key for a submit profile, falling back to the global credentials
+ * saved by `obsydian credentials setup`
+ */
+export async function resolveCredentials(
+  projectDir: string,
+  config: ObsydianConfig,
+  profile: string
+): Promise<ASCCredentials | null> {
+  // First check project config
+  const submitProfile = config.submit?.[profile] ? resolveSubmitProfile(config, profile) : undefined;
+  const projectKey = submitProfile?.appStoreConnect;
+  if (projectKey?.keyId && projectKey?.issuerId && projectKey?.keyPath) {
+    const keyPath = path.isAbsolute(projectKey.keyPath)
+      ? projectKey.keyPath
+      : path.join(projectDir, projectKey.keyPath);
+
+    if (await fs.pathExists(keyPath)) {
+      return {
+        keyPath,
+        keyId: projectKey.keyId,
+        issuerId: projectKey.issuerId,
+      };
+    }
+  }
+
+  // Fall back to global credentials
+  const globalCredPath = path.join(process.env.HOME || '~', '.obsydian', 'credentials.json');
+  if (await fs.pathExists(globalCredPath)) {
+    try {
+      const globalCreds = JSON.parse(await fs.readFile(globalCredPath, 'utf-8'));
+      if (globalCreds.appStoreConnect?.keyId && globalCreds.appStoreConnect?.issuerId && globalCreds.appStoreConnect?.keyPath) {
+        if (await fs.pathExists(globalCreds.appStoreConnect.keyPath)) {
+          return {
+            keyPath: globalCreds.appStoreConnect.keyPath,
+            keyId: globalCreds.appStoreConnect.keyId,
+            issuerId: globalCreds.appStoreConnect.issuerId,
+          };
+        }
+      }
+    } catch {
+      // Invalid JSON, ignore
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sign a short-lived ES256 token for the API
+ */
+async function createToken(credentials: ASCCredentials): Promise<string> {
+  const privateKey = await fs.readFile(credentials.keyPath, 'utf-8');
+  const now = Math.floor(Date.now() / 1000);
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const header = encode({ alg: 'ES256', kid: credentials.keyId, typ: 'JWT' });
+  const payload = encode({
+    iss: credentials.issuerId,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_SECONDS,
+    aud: 'appstoreconnect-v1',
+  });
+
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+async function apiGet(credentials: ASCCredentials, resource: string, query: Record<string, string>): Promise<any> {
+  const url = new URL(resource, API_BASE_URL);
+  for (const [key, value] of Object.entries(query)) {
+    url.searchParams.set(key, value);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Authorization: `Bearer ${await createToken(credentials)}` } });
+  } catch (error: any) {
+    throw new CommandError('APP_STORE_CONNECT_ERROR', `Could not reach App Store Connect: ${error.message}`);
+  }
+
+  const body: any = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const detail = body?.errors?.[0]?.detail ?? response.statusText;
+    throw new CommandError('APP_STORE_CONNECT_ERROR', `App Store Connect returned ${response.status}: ${detail}`);
+  }
+  return body;
+}
+
+/**
+ * Highest build number uploaded for an app on a platform, or null if it has no builds yet
+ */
+export async function getLatestBuildNumber(
+  credentials: ASCCredentials,
+  bundleId: string,
+  platform: Platform
+): Promise<number | null> {
+  const apps = await apiGet(credentials, '/v1/apps', { 'filter[bundleId]': bundleId, limit: '1' });
+  const appId: string | undefined = apps.data?.[0]?.id;
+  if (!appId) {
+    throw new CommandError('APP_STORE_CONNECT_ERROR', `No app with bundle ID ${bundleId} exists in App Store Connect`);
+  }
+
+  // Build numbers are strings, so take the highest of the most recent uploads instead of sorting by version
+  const builds = await apiGet(credentials, '/v1/builds', {
+    'filter[app]': appId,
+    'filter[preReleaseVersion.platform]': platform === 'ios' ? 'IOS' : 'MAC_OS',
+    'fields[builds]': 'version',
+    sort: '-uploadedDate',
+    limit: '200',
+  });
+
+  const buildNumbers = (builds.data ?? [])
+    .map((build: any) => Number(build.attributes?.version))
+    .filter((value: number) => Number.isInteger(value));
+  return buildNumbers.length ? Math.max(...buildNumbers) : null;
+}
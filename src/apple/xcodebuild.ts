@@ -16,9 +16,12 @@ export type XcodeBuildProfile = {
   scheme: string;
   // If omitted, xcodebuild uses the configuration encoded in the scheme/actions.
   // This matches how most Xcode users expect schemes like "*Release*" to behave.
-  configuration?: 'Debug' | 'Release';
+  // Debug, Release, or a variant configuration such as Release-staging.
+  configuration?: string;
   derivedDataPath?: string;
   destination?: string;
+  // Extra build settings appended as KEY=VALUE arguments.
+  buildSettings?: Record<string, string>;
   verbose?: boolean;
 };
 
@@ -26,7 +29,7 @@ export async function ensureXcodeProjectAsync(locator: XcodeProjectLocator): Pro
   const xcodeProjectPath = path.join(locator.projectDir, `${locator.projectName}.xcodeproj`);
   if (!(await fs.pathExists(xcodeProjectPath))) {
     throw new Error(
-      `Xcode project not found: ${xcodeProjectPath}\nRun "obsydian init" to generate it.`
+      `Xcode project not found: ${xcodeProjectPath}\nRun "obsydian prebuild" to generate it.`
     );
   }
   return xcodeProjectPath;
@@ -36,6 +39,10 @@ function containerArgs(container: XcodeContainer): string[] {
   return container.kind === 'workspace' ? ['-workspace', container.path] : ['-project', container.path];
 }
 
+export function buildSettingsArgs(settings: Record<string, string> | undefined): string[] {
+  return Object.entries(settings ?? {}).map(([key, value]) => `${key}=${value}`);
+}
+
 export async function xcodebuildAsync(
   projectDir: string,
   args: string[],
@@ -70,6 +77,7 @@ export async function buildAsync(locator: XcodeProjectLocator, profile: XcodeBui
     args.push('-destination', profile.destination);
   }
 
+  args.push(...buildSettingsArgs(profile.buildSettings));
   args.push('build');
 
   return await xcodebuildAsync(locator.projectDir, args, { verbose: !!profile.verbose });
@@ -101,6 +109,7 @@ export async function buildContainerAsync(
     args.push(...options.extraArgs);
   }
 
+  args.push(...buildSettingsArgs(profile.buildSettings));
   args.push('build');
 
   return await xcodebuildAsync(options.cwd ?? process.cwd(), args, { verbose: !!profile.verbose });
@@ -129,6 +138,7 @@ export async function showBuildSettingsAsync(
     args.push('-destination', profile.destination);
   }
 
+  args.push(...buildSettingsArgs(profile.buildSettings));
   args.push('-showBuildSettings');
 
   const result = await exec('xcodebuild', args, { cwd: locator.projectDir, silent: true });
@@ -166,6 +176,7 @@ export async function showBuildSettingsContainerAsync(
     args.push(...options.extraArgs);
   }
 
+  args.push(...buildSettingsArgs(profile.buildSettings));
   args.push('-showBuildSettings');
 
   const result = await exec('xcodebuild', args, { cwd: options.cwd ?? process.cwd(), silent: true });
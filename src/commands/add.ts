@@ -0,0 +1,143 @@
+/**
+ * add command
+ * Add dependencies to obsydian.json and regenerate the Xcode project
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import chalk from 'chalk';
+import Log from '../utils/log.js';
+import { CommandError } from '../utils/errors.js';
+import { listRemoteTags } from '../utils/git.js';
+import {
+  CONFIG_FILENAME,
+  type Platform,
+  type SwiftPackage,
+  findDynamicConfigPath,
+  findProjectRoot,
+  parsePlatforms,
+  readConfig,
+  readRawConfig,
+  writeConfig,
+} from '../project/config.js';
+import { prebuildProject } from '../project/prebuild.js';
+import { REQUIREMENT_KEYS, isSamePackageUrl, swiftPackageName, swiftPackageRequirement } from '../project/swift-packages.js';
+import { highestTagVersion } from '../project/version.js';
+
+export const addCommand = new Command('add')
+  .description(`Add dependencies to ${CONFIG_FILENAME}`)
+  .addCommand(packageCommand());
+
+interface AddPackageOptions {
+  from?: string;
+  exact?: string;
+  branch?: string;
+  revision?: string;
+  products?: string;
+  platforms?: Platform[];
+}
+
+/**
+ * Version of the package's latest release tag, for packages added without a requirement
+ */
+async function latestPackageVersion(url: string): Promise<string> {
+  const spinner = ora(`Looking up the latest version of ${swiftPackageName(url)}...`).start();
+  let tags: string[];
+  try {
+    tags = await listRemoteTags(url);
+  } catch (error) {
+    spinner.fail(`Could not read the tags of ${url}`);
+    throw error;
+  }
+
+  const version = highestTagVersion(tags);
+  if (!version) {
+    spinner.fail(`${url} has no version tags`);
+    throw new CommandError('PACKAGE_VERSION_NOT_FOUND', 'Pass --branch or --revision to add a package without releases.');
+  }
+
+  spinner.succeed(`Latest version: ${version}`);
+  return version;
+}
+
+function packageCommand(): Command {
+  return new Command('package')
+    .description('Add a Swift package and link its products into the app')
+    .argument('<url>', 'Repository URL, e.g. https://github.com/sparkle-project/Sparkle')
+    .option('--from <version>', 'Any version from this one up to the next major version (default: the latest release)')
+    .option('--exact <version>', 'Exactly this version')
+    .option('--branch <name>', 'The latest commit on a branch')
+    .option('--revision <commit>', 'A specific commit')
+    .option('--products <names>', 'Comma-separated products to link (default: the package name)')
+    .option('--platforms <platforms>', 'Comma-separated platforms to link the products on (default: all)', parsePlatforms)
+    .action(async (url: string, options: AddPackageOptions) => {
+      const requirementOptions = REQUIREMENT_KEYS.filter((key) => options[key] !== undefined);
+      if (requirementOptions.length > 1) {
+        throw new CommandError(
+          'INVALID_OPTIONS',
+          `Pass one of ${REQUIREMENT_KEYS.map((key) => `--${key}`).join(', ')}, not ${requirementOptions.map((key) => `--${key}`).join(' and ')}`
+        );
+      }
+
+      const projectDir = await findProjectRoot();
+      if (!projectDir) {
+        Log.error('Not in an Obsydian project. Run this command from your project directory.');
+        process.exit(1);
+      }
+
+      const dynamicConfigPath = await findDynamicConfigPath(projectDir);
+      if (dynamicConfigPath) {
+        throw new CommandError(
+          'CONFIG_READ_ONLY',
+          `This project uses a dynamic config, which the CLI cannot update. Add the package to dependencies.swiftPackages in ${dynamicConfigPath} by hand.`
+        );
+      }
+
+      const config = await readRawConfig(projectDir);
+      const swiftPackages = config.dependencies?.swiftPackages ?? [];
+      const existing = swiftPackages.find((swiftPackage) => isSamePackageUrl(swiftPackage.url, url));
+      const products = options.products
+        ? options.products.split(',').map((product) => product.trim()).filter(Boolean)
+        : [swiftPackageName(url)];
+
+      // A package added again keeps its requirement unless a new one is given, and gains the new products
+      const requirement: Partial<SwiftPackage> = requirementOptions.length
+        ? { [requirementOptions[0]]: options[requirementOptions[0]] }
+        : existing
+          ? Object.fromEntries(REQUIREMENT_KEYS.filter((key) => existing[key] !== undefined).map((key) => [key, existing[key]]))
+          : { from: await latestPackageVersion(url) };
+
+      const platforms = options.platforms ?? existing?.platforms;
+      const swiftPackage: SwiftPackage = {
+        url: existing?.url ?? url,
+        ...requirement,
+        products: [...new Set([...(existing?.products ?? []), ...products])],
+        ...(platforms ? { platforms } : {}),
+      };
+      // Report a bad requirement before anything is written
+      swiftPackageRequirement(swiftPackage);
+
+      config.dependencies = {
+        ...config.dependencies,
+        swiftPackages: existing
+          ? swiftPackages.map((item) => (item === existing ? swiftPackage : item))
+          : [...swiftPackages, swiftPackage],
+      };
+      await writeConfig(projectDir, config);
+
+      const requirementKey = REQUIREMENT_KEYS.find((key) => swiftPackage[key] !== undefined)!;
+      Log.success(
+        `${existing ? 'Updated' : 'Added'} ${swiftPackageName(url)} (${requirementKey} ${swiftPackage[requirementKey]})`
+          + ` with ${swiftPackage.products.join(', ')} in ${CONFIG_FILENAME}`
+      );
+
+      if (!config.platforms.includes('macos') && !config.platforms.includes('ios')) {
+        return;
+      }
+
+      const spinner = ora(`Regenerating ${config.name}.xcodeproj...`).start();
+      await prebuildProject(projectDir, await readConfig(projectDir));
+      spinner.succeed(`Regenerated ${config.name}.xcodeproj`);
+      Log.dim(`  Xcode resolves the package the next time it builds. Run ${chalk.cyan('obsydian build')} to fetch it.`);
+    });
+}
@@ -9,73 +9,178 @@ import fs from 'fs-extra';
 import ora from 'ora';
 import chalk from 'chalk';
 import Log from '../utils/log.js';
-import { exec, execOrThrow } from '../utils/exec.js';
-import { findProjectRoot, readConfig, type Platform } from '../project/config.js';
+import { exec } from '../utils/exec.js';
+import { parsePlatform, readConfig, type Platform } from '../project/config.js';
+import { resolveBuildProfile } from '../project/config-profiles.js';
+import { resolveProjectDirs } from '../project/workspace.js';
+import { prepareVariant } from '../project/variants.js';
+import { restoreFrameworkLink } from '../project/framework-link.js';
+import { findAppScheme } from '../project/xcode.js';
+import { autoIncrementSource, incrementBuildNumber, writeBuildInfo } from '../project/build-number.js';
+import { buildSettingsArgs } from '../apple/xcodebuild.js';
 import { promptSelect } from '../utils/prompts.js';
 
+/**
+ * Everything xcodebuild needs to know about what to build
+ */
+interface BuildTarget {
+  projectName: string;
+  scheme: string;
+  platform: Platform;
+  // Xcode build configuration, e.g. Release or Release-staging
+  configuration: string;
+  destination?: string;
+  buildSettings: Record<string, string>;
+}
+
+interface BuildOptions {
+  platform?: string;
+  profile?: string;
+  configuration?: string;
+  variant?: string;
+  archive?: boolean;
+  exportPath?: string;
+  verbose?: boolean;
+  app?: string;
+  all?: boolean;
+}
+
 export const buildCommand = new Command('build')
   .description('Build your Obsydian app')
   .option('-p, --platform <platform>', 'Target platform (macos, ios)')
-  .option('-c, --configuration <config>', 'Build configuration (Debug, Release)', 'Release')
+  .option('--profile <name>', 'Build profile from obsydian.json')
+  .option('-c, --configuration <config>', 'Build configuration (Debug, Release) (default: "Release")')
+  .option('--variant <name>', 'App variant from obsydian.json')
   .option('--archive', 'Create an archive for distribution')
   .option('--export-path <path>', 'Path to export the archive')
   .option('-v, --verbose', 'Verbose output')
-  .action(async (options) => {
-    const projectDir = await findProjectRoot();
-    if (!projectDir) {
-      Log.error('Not in an Obsydian project. Run "obsydian init" first.');
-      process.exit(1);
+  .option('--app <name>', 'App from obsydian-workspace.json to build')
+  .option('--all', 'Build every app in obsydian-workspace.json')
+  .action(async (options: BuildOptions) => {
+    for (const projectDir of await resolveProjectDirs(options)) {
+      await buildApp(projectDir, options);
     }
+  });
 
-    const config = await readConfig(projectDir);
-    
-    // Determine platform
-    let platform: Platform;
-    if (options.platform) {
-      platform = options.platform as Platform;
-    } else if (config.platforms.length === 1) {
-      platform = config.platforms[0];
-    } else {
-      platform = await promptSelect('Select platform:', 
-        config.platforms.map(p => ({ title: p, value: p }))
-      );
-    }
+/**
+ * Build a single app
+ */
+async function buildApp(projectDir: string, options: BuildOptions): Promise<void> {
+  const requestedPlatform = options.platform ? parsePlatform(options.platform) : undefined;
+  const config = await readConfig(projectDir, { profile: options.profile, platform: requestedPlatform });
+  if (options.all && requestedPlatform && !config.platforms.includes(requestedPlatform)) {
+    Log.warn(`Skipping ${config.name}: it does not target ${requestedPlatform}`);
+    return;
+  }
 
-    const configuration = options.configuration as 'Debug' | 'Release';
-    const verbose = options.verbose ?? false;
+  const profile = options.profile ? resolveBuildProfile(config, options.profile) : undefined;
+  
+  // Determine platform (CLI flag > profile > only/selected platform)
+  let platform: Platform;
+  if (requestedPlatform) {
+    platform = requestedPlatform;
+  } else if (profile?.platform) {
+    platform = profile.platform;
+  } else if (config.platforms.length === 1) {
+    platform = config.platforms[0];
+  } else {
+    platform = await promptSelect('Select platform:', 
+      config.platforms.map(p => ({ title: p, value: p }))
+    );
+  }
 
-    Log.newLine();
-    Log.bold(`🔨 Building ${config.name} for ${platform}`);
-    Log.dim(`Configuration: ${configuration}`);
-    Log.newLine();
+  const configuration = options.configuration ?? profile?.configuration ?? 'Release';
+  if (configuration !== 'Debug' && configuration !== 'Release') {
+    Log.error('Configuration must be one of: Debug, Release');
+    process.exit(1);
+  }
 
-    // Find Xcode project
-    const xcodeProjectPath = path.join(projectDir, `${config.name}.xcodeproj`);
-    if (!await fs.pathExists(xcodeProjectPath)) {
-      Log.error(`Xcode project not found: ${xcodeProjectPath}`);
-      Log.info('Run "obsydian init" to regenerate the project');
-      process.exit(1);
-    }
+  const variantName = options.variant ?? profile?.variant;
+  const prepared = await prepareVariant(projectDir, config, configuration, variantName);
+
+  const target: BuildTarget = {
+    projectName: config.name,
+    scheme: profile?.scheme ?? await findAppScheme(projectDir, config.name, platform),
+    platform,
+    configuration: prepared.configuration,
+    destination: profile?.destination,
+    buildSettings: profile?.buildSettings ?? {},
+  };
+  const verbose = options.verbose ?? false;
+
+  Log.newLine();
+  Log.bold(`🔨 Building ${config.name} for ${platform}`);
+  if (options.profile) {
+    Log.dim(`Profile: ${options.profile}`);
+  }
+  if (variantName) {
+    Log.dim(`Variant: ${variantName} (${prepared.bundleId})`);
+  }
+  Log.dim(`Configuration: ${prepared.configuration}`);
+  Log.newLine();
+
+  // A local framework checkout is linked into Frameworks/, which a fresh clone does not have
+  await restoreFrameworkLink(projectDir, config);
+
+  // Find Xcode project
+  const xcodeProjectPath = path.join(projectDir, `${config.name}.xcodeproj`);
+  if (!await fs.pathExists(xcodeProjectPath)) {
+    Log.error(`Xcode project not found: ${xcodeProjectPath}`);
+    Log.info('Run "obsydian prebuild" to generate it');
+    process.exit(1);
+  }
 
-    const buildDir = path.join(projectDir, 'build');
-    if (!await fs.pathExists(buildDir)) {
-      await fs.mkdir(buildDir, { recursive: true });
-    }
+  const buildDir = path.join(projectDir, 'build');
+  if (!await fs.pathExists(buildDir)) {
+    await fs.mkdir(buildDir, { recursive: true });
+  }
 
-    if (options.archive) {
-      // Archive build
-      await buildArchive(projectDir, config.name, platform, configuration, buildDir, options.exportPath, verbose);
-    } else {
-      // Regular build
-      await buildProject(projectDir, config.name, platform, configuration, buildDir, verbose);
+  if (options.archive) {
+    // Bump the build number first so the archive carries the new one
+    const buildNumberSource = autoIncrementSource(profile?.autoIncrement);
+    let buildNumber = config.buildNumber ?? 1;
+    if (buildNumberSource) {
+      buildNumber = await incrementBuildNumber(
+        { projectDir, config, platform, bundleId: prepared.bundleId, profile: options.profile },
+        buildNumberSource
+      );
+      Log.info(`Build number: ${buildNumber} (${buildNumberSource})`);
     }
-  });
+
+    // Archive build
+    const archivePath = await buildArchive(projectDir, target, buildDir, options.exportPath, verbose);
+    await writeBuildInfo(projectDir, {
+      name: config.name,
+      version: config.version,
+      buildNumber,
+      buildNumberSource,
+      platform,
+      configuration: prepared.configuration,
+      variant: variantName,
+      bundleId: prepared.bundleId,
+      archivePath,
+    });
+  } else {
+    // Regular build
+    await buildProject(projectDir, target, buildDir, verbose);
+  }
+}
+
+/**
+ * Default xcodebuild destination for a platform
+ */
+function defaultDestination(platform: Platform): string | undefined {
+  if (platform === 'macos') {
+    return 'platform=macOS,arch=arm64';
+  } else if (platform === 'ios') {
+    return 'generic/platform=iOS';
+  }
+  return undefined;
+}
 
 async function buildProject(
   projectDir: string,
-  projectName: string,
-  platform: Platform,
-  configuration: string,
+  target: BuildTarget,
   buildDir: string,
   verbose: boolean
 ): Promise<void> {
@@ -83,20 +188,21 @@ async function buildProject(
 
   try {
     const args = [
-      '-project', `${projectName}.xcodeproj`,
-      '-scheme', projectName,
-      '-configuration', configuration,
+      '-project', `${target.projectName}.xcodeproj`,
+      '-scheme', target.scheme,
+      '-configuration', target.configuration,
       '-derivedDataPath', buildDir,
-      'build',
     ];
 
     // Add platform-specific settings
-    if (platform === 'macos') {
-      args.push('-destination', 'platform=macOS,arch=arm64');
-    } else if (platform === 'ios') {
-      args.push('-destination', 'generic/platform=iOS');
+    const destination = target.destination ?? defaultDestination(target.platform);
+    if (destination) {
+      args.push('-destination', destination);
     }
 
+    args.push(...buildSettingsArgs(target.buildSettings));
+    args.push('build');
+
     const result = await exec('xcodebuild', args, {
       cwd: projectDir,
       verbose,
@@ -114,7 +220,7 @@ async function buildProject(
     spinner.succeed('Build succeeded!');
     
     // Find the built app
-    const appPath = await findBuiltApp(buildDir, projectName, configuration);
+    const appPath = await findBuiltApp(buildDir, target.projectName, target.configuration);
     if (appPath) {
       Log.newLine();
       Log.success(`App built at: ${chalk.cyan(appPath)}`);
@@ -128,33 +234,32 @@ async function buildProject(
 
 async function buildArchive(
   projectDir: string,
-  projectName: string,
-  platform: Platform,
-  configuration: string,
+  target: BuildTarget,
   buildDir: string,
   exportPath: string | undefined,
   verbose: boolean
-): Promise<void> {
-  const archivePath = path.join(buildDir, `${projectName}.xcarchive`);
+): Promise<string> {
+  const archivePath = path.join(buildDir, `${target.projectName}.xcarchive`);
   
   // Step 1: Create archive
   const archiveSpinner = ora('Creating archive...').start();
 
   try {
     const archiveArgs = [
-      '-project', `${projectName}.xcodeproj`,
-      '-scheme', projectName,
-      '-configuration', configuration,
+      '-project', `${target.projectName}.xcodeproj`,
+      '-scheme', target.scheme,
+      '-configuration', target.configuration,
       '-archivePath', archivePath,
-      'archive',
     ];
 
-    if (platform === 'macos') {
-      archiveArgs.push('-destination', 'platform=macOS,arch=arm64');
-    } else if (platform === 'ios') {
-      archiveArgs.push('-destination', 'generic/platform=iOS');
+    const destination = target.destination ?? defaultDestination(target.platform);
+    if (destination) {
+      archiveArgs.push('-destination', destination);
     }
 
+    archiveArgs.push(...buildSettingsArgs(target.buildSettings));
+    archiveArgs.push('archive');
+
     const result = await exec('xcodebuild', archiveArgs, {
       cwd: projectDir,
       verbose,
@@ -173,9 +278,11 @@ async function buildArchive(
 
     // Step 2: Export archive (if export path provided)
     if (exportPath) {
-      await exportArchive(projectDir, archivePath, exportPath, platform, verbose);
+      await exportArchive(projectDir, archivePath, exportPath, target.platform, verbose);
     }
 
+    return archivePath;
+
   } catch (error) {
     archiveSpinner.fail('Archive failed');
     throw error;
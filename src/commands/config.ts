@@ -0,0 +1,240 @@
+/**
+ * config command
+ * Inspect and edit obsydian.json
+ */
+
+import { Command } from 'commander';
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import Log from '../utils/log.js';
+import { maskSecrets } from '../utils/secrets.js';
+import { formatDiff } from '../utils/diff.js';
+import {
+  CONFIG_FILENAME,
+  CURRENT_SCHEMA_VERSION,
+  type ObsydianConfig,
+  findDynamicConfigPath,
+  findProjectRoot,
+  migrateConfig,
+  readConfig,
+  readConfigFile,
+  readRawConfig,
+  writeConfig,
+} from '../project/config.js';
+import { findProfileErrors, resolveBuildProfile, resolveSubmitProfile } from '../project/config-profiles.js';
+import { ConfigValidationError, getSchemaAtPath, validateConfig } from '../project/config-validation.js';
+import {
+  coerceConfigValue,
+  flattenConfig,
+  formatConfigPath,
+  getConfigValue,
+  parseConfigPath,
+  setConfigValue,
+  unsetConfigValue,
+} from '../project/config-paths.js';
+
+export const configCommand = new Command('config')
+  .description('Inspect and edit obsydian.json')
+  .addCommand(getCommand())
+  .addCommand(setCommand())
+  .addCommand(unsetCommand())
+  .addCommand(listCommand())
+  .addCommand(resolveCommand())
+  .addCommand(migrateCommand());
+
+async function requireProjectRoot(): Promise<string> {
+  const projectDir = await findProjectRoot();
+  if (!projectDir) {
+    Log.error('Not in an Obsydian project. Run this command from your project directory.');
+    process.exit(1);
+  }
+  return projectDir;
+}
+
+/**
+ * The config to print: obsydian.json exactly as written, or the evaluated dynamic config.
+ * Values the CLI would add when migrating an older file are not shown; a warning says the file needs migrating.
+ */
+async function readConfigForDisplay(projectDir: string): Promise<unknown> {
+  if (await findDynamicConfigPath(projectDir)) {
+    return readConfig(projectDir);
+  }
+
+  const written = await readConfigFile(projectDir);
+  if (migrateConfig(written).applied.length) {
+    Log.warn(`${CONFIG_FILENAME} uses an older schema and is shown as written. Run "obsydian config migrate" to upgrade it.`);
+  }
+  return written;
+}
+
+function formatConfigValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Write an edited config, refusing edits that introduce new validation errors
+ * or break profile inheritance (extends of a missing profile, cycles)
+ */
+async function writeEditedConfig(projectDir: string, before: ObsydianConfig, after: ObsydianConfig): Promise<void> {
+  const existing = new Set(validateConfig(before).errors.map((issue) => issue.message));
+  const introduced = validateConfig(after).errors.filter((issue) => !existing.has(issue.message));
+  if (introduced.length) {
+    throw new ConfigValidationError(introduced, CONFIG_FILENAME);
+  }
+
+  const existingProfileErrors = new Set(findProfileErrors(before).map((error) => error.message));
+  const profileError = findProfileErrors(after).find((error) => !existingProfileErrors.has(error.message));
+  if (profileError) {
+    throw profileError;
+  }
+
+  await writeConfig(projectDir, after);
+}
+
+function getCommand(): Command {
+  return new Command('get')
+    .description('Print the value at a dotted path (e.g. build.production.configuration)')
+    .argument('<path>', 'Dotted path into the config')
+    .action(async (input: string) => {
+      const projectDir = await requireProjectRoot();
+      const config = await readConfigForDisplay(projectDir);
+      const segments = parseConfigPath(input);
+      const value = getConfigValue(config, segments);
+
+      if (value === undefined) {
+        // Tell a typo apart from a key that simply isn't set
+        getSchemaAtPath(segments);
+        Log.error(`${formatConfigPath(segments)} is not set`);
+        process.exit(1);
+      }
+
+      Log.log(maskSecrets(formatConfigValue(value)));
+    });
+}
+
+function setCommand(): Command {
+  return new Command('set')
+    .description('Set the value at a dotted path (objects and arrays are given as JSON)')
+    .argument('<path>', 'Dotted path into the config')
+    .argument('<value>', 'New value')
+    .action(async (input: string, rawValue: string) => {
+      const projectDir = await requireProjectRoot();
+      const segments = parseConfigPath(input);
+      const path = formatConfigPath(segments);
+      if (!segments.length) {
+        Log.error('Cannot replace the whole config. Set individual keys instead.');
+        process.exit(1);
+      }
+
+      const value = coerceConfigValue(rawValue, getSchemaAtPath(segments), path);
+      const config = await readRawConfig(projectDir);
+      await writeEditedConfig(projectDir, config, setConfigValue(config, segments, value));
+
+      Log.success(`Set ${path} to ${maskSecrets(JSON.stringify(value))}`);
+    });
+}
+
+function unsetCommand(): Command {
+  return new Command('unset')
+    .description('Remove the value at a dotted path')
+    .argument('<path>', 'Dotted path into the config')
+    .action(async (input: string) => {
+      const projectDir = await requireProjectRoot();
+      const segments = parseConfigPath(input);
+      const path = formatConfigPath(segments);
+      getSchemaAtPath(segments);
+
+      const config = await readRawConfig(projectDir);
+      if (getConfigValue(config, segments) === undefined) {
+        Log.info(`${path} is not set`);
+        return;
+      }
+
+      await writeEditedConfig(projectDir, config, unsetConfigValue(config, segments));
+      Log.success(`Removed ${path}`);
+    });
+}
+
+function listCommand(): Command {
+  return new Command('list')
+    .description('Print every value in the config')
+    .option('--json', 'Print the config as JSON')
+    .action(async (options: { json?: boolean }) => {
+      const projectDir = await requireProjectRoot();
+      const config = await readConfigForDisplay(projectDir);
+
+      if (options.json) {
+        Log.log(maskSecrets(JSON.stringify(config, null, 2)));
+        return;
+      }
+
+      for (const [path, value] of flattenConfig(config)) {
+        Log.log(`${chalk.cyan(path)} = ${maskSecrets(JSON.stringify(value))}`);
+      }
+    });
+}
+
+function resolveCommand(): Command {
+  return new Command('resolve')
+    .description('Print a profile with everything it extends merged in')
+    .requiredOption('--profile <name>', 'Profile to resolve')
+    .option('--type <type>', 'Profile type (build, submit)', 'build')
+    .action(async (options: { profile: string; type: string }) => {
+      const projectDir = await requireProjectRoot();
+
+      if (options.type !== 'build' && options.type !== 'submit') {
+        Log.error('Type must be one of: build, submit');
+        process.exit(1);
+      }
+
+      const config = await readConfig(projectDir, { profile: options.profile });
+      const profile = options.type === 'build'
+        ? resolveBuildProfile(config, options.profile)
+        : resolveSubmitProfile(config, options.profile);
+
+      // Values that came from .env files are masked
+      Log.log(maskSecrets(JSON.stringify(profile, null, 2)));
+    });
+}
+
+function migrateCommand(): Command {
+  return new Command('migrate')
+    .description(`Upgrade ${CONFIG_FILENAME} to the current schema version`)
+    .option('--check', 'Exit with a non-zero code if a migration is pending, without writing')
+    .action(async (options: { check?: boolean }) => {
+      const projectDir = await requireProjectRoot();
+
+      const { config, applied } = migrateConfig(await readConfigFile(projectDir));
+
+      if (!applied.length) {
+        Log.success(`${CONFIG_FILENAME} is up to date (schema version ${CURRENT_SCHEMA_VERSION})`);
+        return;
+      }
+
+      if (options.check) {
+        Log.error(`${CONFIG_FILENAME} needs ${applied.length} migration${applied.length === 1 ? '' : 's'}:`);
+        for (const migration of applied) {
+          Log.log(`  ${migration.from} → ${migration.to}: ${migration.description}`);
+        }
+        Log.newLine();
+        Log.log(`Run ${chalk.cyan('obsydian config migrate')} to apply them.`);
+        process.exit(1);
+      }
+
+      const configPath = path.join(projectDir, CONFIG_FILENAME);
+      const before = await fs.readFile(configPath, 'utf-8');
+      await writeConfig(projectDir, config, { migrate: true });
+      const after = await fs.readFile(configPath, 'utf-8');
+
+      Log.newLine();
+      Log.bold(`🔧 Migrated ${CONFIG_FILENAME} to schema version ${CURRENT_SCHEMA_VERSION}`);
+      Log.newLine();
+      for (const migration of applied) {
+        Log.log(`  ${chalk.green('✔')} ${migration.from} → ${migration.to}: ${migration.description}`);
+      }
+      Log.newLine();
+      Log.log(formatDiff(before, after));
+      Log.newLine();
+    });
+}
@@ -9,7 +9,9 @@ import fs from 'fs-extra';
 import chalk from 'chalk';
 import Log from '../utils/log.js';
 import { promptText, promptFilePath, promptSelect, promptConfirm } from '../utils/prompts.js';
-import { findProjectRoot, readConfig, writeConfig } from '../project/config.js';
+import { findDynamicConfigPath, findProjectRoot, readConfig, readRawConfig, writeConfig } from '../project/config.js';
+import { maskSecrets } from '../utils/secrets.js';
+import { resolveSubmitProfile } from '../project/config-profiles.js';
 
 export const credentialsCommand = new Command('credentials')
   .description('Manage App Store Connect credentials')
@@ -81,8 +83,6 @@ function setupCommand(): Command {
         const saveToProject = await promptConfirm('Save credentials to project config?', true);
         
         if (saveToProject) {
-          const config = await readConfig(projectDir);
-          
           // Copy key to project
           const keysDir = path.join(projectDir, '.keys');
           await fs.ensureDir(keysDir);
@@ -90,19 +90,31 @@ function setupCommand(): Command {
           const localKeyPath = path.join(keysDir, `AuthKey_${keyId}.p8`);
           await fs.copyFile(keyPath, localKeyPath);
           
-          // Update config
-          config.submit = {
-            ...config.submit,
-            production: {
-              ...config.submit?.production,
-              platform: config.platforms[0],
-              ascApiKeyPath: `.keys/AuthKey_${keyId}.p8`,
-              ascApiKeyId: keyId,
-              ascApiKeyIssuerId: issuerId,
-            },
-          };
-          
-          await writeConfig(projectDir, config);
+          // Update config (dynamic configs are read-only, so print what to add instead)
+          const dynamicConfigPath = await findDynamicConfigPath(projectDir);
+          if (dynamicConfigPath) {
+            Log.warn(`${path.basename(dynamicConfigPath)} is a dynamic config, so it was not updated.`);
+            Log.log('Add these values to submit.production.appStoreConnect yourself:');
+            Log.log(`  keyPath: ${chalk.cyan(`.keys/AuthKey_${keyId}.p8`)}`);
+            Log.log(`  keyId: ${chalk.cyan(keyId)}`);
+            Log.log(`  issuerId: ${chalk.cyan(issuerId)}`);
+          } else {
+            const config = await readRawConfig(projectDir);
+            config.submit = {
+              ...config.submit,
+              production: {
+                ...config.submit?.production,
+                platform: config.platforms[0],
+                appStoreConnect: {
+                  keyPath: `.keys/AuthKey_${keyId}.p8`,
+                  keyId,
+                  issuerId,
+                },
+              },
+            };
+            
+            await writeConfig(projectDir, config);
+          }
           
           // Add .keys to .gitignore
           const gitignorePath = path.join(projectDir, '.gitignore');
@@ -152,7 +164,8 @@ function setupCommand(): Command {
 function showCommand(): Command {
   return new Command('show')
     .description('Show configured credentials')
-    .action(async () => {
+    .option('--profile <profile>', 'Profile whose .env files should be loaded')
+    .action(async (options: { profile?: string }) => {
       Log.newLine();
       Log.bold('🔐 Configured Credentials');
       Log.newLine();
@@ -160,12 +173,15 @@ function showCommand(): Command {
       // Check project credentials
       const projectDir = await findProjectRoot();
       if (projectDir) {
-        const config = await readConfig(projectDir);
-        if (config.submit?.production?.ascApiKeyId) {
+        const config = await readConfig(projectDir, { profile: options.profile });
+        const production = config.submit?.production ? resolveSubmitProfile(config, 'production') : undefined;
+        const projectKey = production?.appStoreConnect;
+        if (projectKey?.keyId) {
+          // Values that came from .env files are masked
           Log.log(chalk.green('Project credentials:'));
-          Log.log(`  Key ID: ${config.submit.production.ascApiKeyId}`);
-          Log.log(`  Issuer ID: ${config.submit.production.ascApiKeyIssuerId}`);
-          Log.log(`  Key Path: ${config.submit.production.ascApiKeyPath}`);
+          Log.log(`  Key ID: ${maskSecrets(projectKey.keyId)}`);
+          Log.log(`  Issuer ID: ${maskSecrets(projectKey.issuerId ?? '')}`);
+          Log.log(`  Key Path: ${maskSecrets(projectKey.keyPath ?? '')}`);
           Log.newLine();
         } else {
           Log.dim('No project credentials configured');
@@ -7,8 +7,16 @@ import { Command } from 'commander';
 import fs from 'fs-extra';
 import path from 'path';
 import Log from '../utils/log.js';
-import { findProjectRoot, readConfig, writeConfig } from '../project/config.js';
+import {
+  findDynamicConfigPath,
+  findProjectRoot,
+  readConfig,
+  readRawConfig,
+  writeConfig,
+  type ObsydianConfig,
+} from '../project/config.js';
 import { downloadFrameworkWithCache, getLatestFrameworkVersion } from '../utils/framework-downloader.js';
+import { isFrameworkLinked, linkLocalFramework, unlinkLocalFramework } from '../project/framework-link.js';
 import chalk from 'chalk';
 
 export const frameworkCommand = new Command('framework')
@@ -23,8 +31,16 @@ export const frameworkCommand = new Command('framework')
           process.exit(1);
         }
 
-        const config = await readConfig(projectDir);
+        // Dynamic configs are read-only, so only the evaluated result is needed
+        const dynamicConfigPath = await findDynamicConfigPath(projectDir);
+        const config = dynamicConfigPath ? await readConfig(projectDir) : await readRawConfig(projectDir);
         const currentVersion = config.framework?.version || 'unknown';
+
+        if (config.framework?.source === 'local') {
+          Log.error(`This project uses a local framework (${config.framework.localPath}).`);
+          Log.log(`Run ${chalk.cyan('obsydian framework unlink')} to switch back to a released version.`);
+          process.exit(1);
+        }
         
         Log.newLine();
         Log.bold('🔄 Updating Obsydian Framework');
@@ -44,11 +60,16 @@ export const frameworkCommand = new Command('framework')
           const frameworkPath = await downloadFrameworkWithCache(latestVersion, projectDir);
 
           // Update config
-          config.framework = {
-            version: latestVersion,
-            source: 'github',
-          };
-          await writeConfig(projectDir, config);
+          if (dynamicConfigPath) {
+            Log.warn(`${path.basename(dynamicConfigPath)} is a dynamic config, so it was not updated.`);
+            Log.log(`Set ${chalk.cyan(`framework.version = "${latestVersion}"`)} in it yourself.`);
+          } else {
+            config.framework = {
+              version: latestVersion,
+              source: 'github',
+            };
+            await writeConfig(projectDir, config);
+          }
 
           Log.newLine();
           Log.success(`Framework updated to v${latestVersion}!`);
@@ -81,6 +102,14 @@ export const frameworkCommand = new Command('framework')
         Log.newLine();
         Log.log(`Version: ${chalk.cyan(version)}`);
         Log.log(`Source: ${chalk.dim(source)}`);
+
+        if (source === 'local') {
+          Log.log(`Path: ${chalk.dim(config.framework?.localPath ?? 'unknown')}`);
+          if (!await isFrameworkLinked(projectDir)) {
+            Log.warn(`Frameworks/Obsydian.xcframework is not linked. Run ${chalk.cyan('obsydian framework link <path>')} again.`);
+          }
+          return;
+        }
         
         try {
           const latestVersion = await getLatestFrameworkVersion();
@@ -96,4 +125,80 @@ export const frameworkCommand = new Command('framework')
           Log.warn(`Could not check for updates: ${error.message}`);
         }
       })
-  );
+  )
+  .addCommand(linkCommand())
+  .addCommand(unlinkCommand());
+
+async function requireProjectRoot(): Promise<string> {
+  const projectDir = await findProjectRoot();
+  if (!projectDir) {
+    Log.error('Not in an Obsydian project. Run this command from your project directory.');
+    process.exit(1);
+  }
+  return projectDir;
+}
+
+/**
+ * Save framework settings, or print them when the project uses a read-only dynamic config
+ */
+async function saveFrameworkConfig(
+  projectDir: string,
+  framework: NonNullable<ObsydianConfig['framework']>
+): Promise<void> {
+  const dynamicConfigPath = await findDynamicConfigPath(projectDir);
+  if (dynamicConfigPath) {
+    Log.warn(`${path.basename(dynamicConfigPath)} is a dynamic config, so it was not updated.`);
+    Log.log(`Set ${chalk.cyan(`framework = ${JSON.stringify(framework)}`)} in it yourself.`);
+    return;
+  }
+
+  const config = await readRawConfig(projectDir);
+  await writeConfig(projectDir, { ...config, framework });
+}
+
+function linkCommand(): Command {
+  return new Command('link')
+    .description('Use a local Obsydian.xcframework build instead of a released version')
+    .argument('<path>', 'Path to Obsydian.xcframework')
+    .action(async (frameworkPath: string) => {
+      const projectDir = await requireProjectRoot();
+      const config = await readConfig(projectDir);
+
+      const localPath = await linkLocalFramework(projectDir, frameworkPath);
+      // The released version is kept so unlink can return to it
+      await saveFrameworkConfig(projectDir, { ...config.framework, source: 'local', localPath });
+
+      Log.success(`Linked ${chalk.cyan(localPath)}`);
+      Log.dim('Builds use the local framework directly, so rebuilding it is enough to pick up changes.');
+    });
+}
+
+function unlinkCommand(): Command {
+  return new Command('unlink')
+    .description('Switch from a local framework back to a released version')
+    .argument('[version]', 'Framework version to download (default: the version used before linking, or the latest)')
+    .action(async (requestedVersion: string | undefined) => {
+      const projectDir = await requireProjectRoot();
+      const config = await readConfig(projectDir);
+
+      if (config.framework?.source !== 'local' && !await isFrameworkLinked(projectDir)) {
+        Log.info('This project already uses a released framework.');
+        return;
+      }
+
+      const version = requestedVersion ?? config.framework?.version ?? await getLatestFrameworkVersion();
+      await unlinkLocalFramework(projectDir);
+
+      try {
+        Log.log(`Downloading framework v${version}...`);
+        await downloadFrameworkWithCache(version, projectDir);
+      } catch (error: any) {
+        Log.error(`Failed to download framework: ${error.message}`);
+        Log.dim('The local framework is no longer linked. Run "obsydian framework unlink" again to retry the download.');
+        process.exit(1);
+      }
+
+      await saveFrameworkConfig(projectDir, { version, source: 'github' });
+      Log.success(`Using framework v${version}`);
+    });
+}
@@ -10,53 +10,251 @@ import ora from 'ora';
 import chalk from 'chalk';
 import Log from '../utils/log.js';
 import { promptText, promptSelect, promptMultiSelect, promptConfirm } from '../utils/prompts.js';
-import { createDefaultConfig, writeConfig, type Platform } from '../project/config.js';
-import { generateMainWithFramework } from '../project/templates/main-with-framework.js';
+import {
+  CONFIG_FILENAME,
+  createDefaultConfig,
+  parsePlatform,
+  parsePlatforms,
+  readConfig,
+  serializeConfig,
+  type Platform,
+} from '../project/config.js';
 import { generateInfoPlist } from '../project/templates/info-plist.js';
 import { generateEntitlements } from '../project/templates/entitlements.js';
+import { generateGitignore } from '../project/templates/gitignore.js';
 import { generatePlaceholderIcon } from '../project/icon-generator.js';
-import { generateXcodeProject } from '../project/xcode.js';
+import { infoPlistName, isSourceFile } from '../project/xcode.js';
+import { prebuildProject, selectSourceFiles } from '../project/prebuild.js';
+import {
+  DEFAULT_TEMPLATE,
+  cleanupTemplate,
+  collectTemplateValues,
+  confirmTemplateHooks,
+  defaultTemplateFor,
+  listBuiltInTemplates,
+  parseLanguage,
+  renderTemplate,
+  resolveTemplate,
+  runTemplateHooks,
+  templateLanguage,
+  templatePlistKeys,
+  type Language,
+  type ProjectTemplate,
+} from '../project/project-template.js';
+import {
+  WORKSPACE_FILENAME,
+  findWorkspaceRoot,
+  readWorkspace,
+  writeWorkspace,
+} from '../project/workspace.js';
 import { getXcodeVersion } from '../utils/exec.js';
+import { CommandError } from '../utils/errors.js';
+import { commitAll, initRepository, isGitAvailable, isGitRepository } from '../utils/git.js';
 import { downloadFrameworkWithCache, getLatestFrameworkVersion } from '../utils/framework-downloader.js';
+import { linkLocalFramework } from '../project/framework-link.js';
+import {
+  createProjectFileWriter,
+  isEmptyDirectory,
+  printFileSummary,
+  type ConflictMode,
+} from '../project/project-files.js';
+
+interface InitOptions {
+  platform?: string;
+  platforms?: string;
+  bundleId?: string;
+  teamId?: string;
+  template?: string;
+  language?: string;
+  yes?: boolean;
+  frameworkVersion?: string;
+  frameworkPath?: string;
+  skipFrameworkDownload?: boolean;
+  skipXcodeCheck?: boolean;
+  force?: boolean;
+  merge?: boolean;
+  git?: boolean;
+}
+
+const DEFAULT_PROJECT_NAME = 'my-app';
+const DEFAULT_PLATFORMS: Platform[] = ['macos'];
+
+function validateProjectName(value: string): true | string {
+  if (!value.match(/^[a-zA-Z][a-zA-Z0-9_-]*$/)) {
+    return 'Project name must start with a letter and contain only letters, numbers, hyphens, and underscores';
+  }
+  return true;
+}
+
+/**
+ * Without a TTY nothing can be prompted for, so list every input that is missing at once
+ */
+function assertInputsGiven(name: string | undefined, options: InitOptions): void {
+  if (options.yes || process.stdin.isTTY) {
+    return;
+  }
+
+  const missing: string[] = [];
+  if (!name) {
+    missing.push('Project name: pass it as the first argument');
+  }
+  if (!options.platform && !options.platforms) {
+    missing.push('Platforms: pass --platforms macos,ios');
+  }
+
+  if (missing.length) {
+    throw new CommandError(
+      'MISSING_INPUTS',
+      'Cannot prompt for missing options because stdin is not a TTY:\n'
+        + missing.map((item) => `  • ${item}`).join('\n')
+        + '\nPass them as flags, or pass --yes to use the defaults.'
+    );
+  }
+}
+
+/**
+ * Put the new project under version control, unless it already is
+ */
+async function initGitRepository(projectDir: string, requested: boolean): Promise<void> {
+  if (await isGitRepository(projectDir)) {
+    Log.dim('Already inside a git repository, skipping git init');
+    return;
+  }
+
+  if (!await isGitAvailable()) {
+    if (requested) {
+      Log.warn('git is not installed, skipping git init');
+    } else {
+      Log.dim('git is not installed, skipping git init');
+    }
+    return;
+  }
+
+  try {
+    await initRepository(projectDir);
+  } catch (error: any) {
+    Log.warn(`Could not initialize a git repository: ${error.message}`);
+    return;
+  }
+
+  try {
+    await commitAll(projectDir, 'Initial commit from obsydian init');
+    Log.success('Initialized a git repository with an initial commit');
+  } catch (error: any) {
+    // Usually a missing user.name / user.email; the files stay staged for the user to commit
+    Log.warn(`Initialized a git repository, but the initial commit failed: ${error.message}`);
+  }
+}
+
+/**
+ * Let the user pick one of the built-in templates that supports every selected platform
+ * (and the language, when --language is given)
+ */
+async function promptTemplate(platforms: Platform[], language?: Language): Promise<ProjectTemplate> {
+  const templates = (await listBuiltInTemplates()).filter((template) =>
+    (!template.manifest.platforms || platforms.every((platform) => template.manifest.platforms!.includes(platform)))
+    && (!language || templateLanguage(template) === language));
+  const defaultName = defaultTemplateFor(language);
+  if (templates.length <= 1) {
+    return templates[0] ?? resolveTemplate(defaultName);
+  }
+
+  // Default template first
+  templates.sort((a, b) => Number(b.manifest.name === defaultName) - Number(a.manifest.name === defaultName));
+  return promptSelect('Select a template:', templates.map((template) => ({
+    title: template.manifest.name,
+    value: template,
+    description: template.manifest.description,
+  })));
+}
 
 export const initCommand = new Command('init')
   .description('Create a new Obsydian project')
-  .argument('[name]', 'Project name')
+  .argument('[name]', 'Project name, or "." to create the project in the current directory')
   .option('-p, --platform <platform>', 'Target platform (macos, ios)')
+  .option('--platforms <platforms>', 'Comma-separated target platforms, e.g. macos,ios')
   .option('-b, --bundle-id <bundleId>', 'Bundle identifier')
   .option('-t, --team-id <teamId>', 'Apple Developer Team ID (required for App Store submission)')
-  .action(async (name?: string, options?: { platform?: string; bundleId?: string; teamId?: string }) => {
+  .option('--template <template>', `Built-in template name, local template directory or git URL (default: "${DEFAULT_TEMPLATE}")`)
+  .option('--language <language>', 'Language of the app code: objcpp or swift (default: objcpp)')
+  .option('-y, --yes', `Use defaults instead of prompting (name "${DEFAULT_PROJECT_NAME}", platform ${DEFAULT_PLATFORMS.join(', ')})`)
+  .option('--framework-version <version>', 'Obsydian framework version (default: latest)')
+  .option('--framework-path <path>', 'Link a local Obsydian.xcframework build instead of downloading one')
+  .option('--skip-framework-download', 'Do not download the framework (add it later with "obsydian framework update")')
+  .option('--skip-xcode-check', 'Do not require Xcode to be installed')
+  .option('--force', 'Overwrite files that already exist in the project directory')
+  .option('--git', 'Initialize a git repository with an initial commit (default)')
+  .option('--no-git', 'Do not initialize a git repository')
+  .option('--merge', 'Keep files that already exist; write generated versions next to them as .new files')
+  .action(async (name: string | undefined, options: InitOptions) => {
+    if (options.platform && options.platforms) {
+      throw new CommandError('INVALID_OPTIONS', 'Pass either --platform or --platforms, not both');
+    }
+    if (options.force && options.merge) {
+      throw new CommandError('INVALID_OPTIONS', 'Pass either --force or --merge, not both');
+    }
+    if (options.frameworkPath && (options.frameworkVersion || options.skipFrameworkDownload)) {
+      throw new CommandError(
+        'INVALID_OPTIONS',
+        '--framework-path cannot be combined with --framework-version or --skip-framework-download'
+      );
+    }
+    // Check flags before anything slow happens
+    const platformsFromFlags = options.platforms
+      ? parsePlatforms(options.platforms)
+      : options.platform ? [parsePlatform(options.platform)] : undefined;
+    const language = options.language ? parseLanguage(options.language) : undefined;
+    if (options.frameworkPath && !await fs.pathExists(options.frameworkPath)) {
+      throw new CommandError('FRAMEWORK_NOT_FOUND', `Framework not found: ${path.resolve(options.frameworkPath)}`);
+    }
+    const inCurrentDir = name === '.';
+    if (inCurrentDir) {
+      name = path.basename(process.cwd());
+      if (validateProjectName(name) !== true) {
+        throw new CommandError(
+          'INVALID_PROJECT_NAME',
+          `The current directory name "${name}" cannot be used as the project name: ${validateProjectName(name)}`
+        );
+      }
+    } else if (name && validateProjectName(name) !== true) {
+      throw new CommandError('INVALID_PROJECT_NAME', validateProjectName(name) as string);
+    }
+    assertInputsGiven(name, options);
+
     Log.newLine();
     Log.bold('🚀 Create Obsydian App');
     Log.newLine();
 
     // Check prerequisites
-    const spinner = ora('Checking prerequisites...').start();
-    
-    const xcodeVersion = await getXcodeVersion();
-    if (!xcodeVersion) {
-      spinner.fail('Xcode not found');
-      Log.error('Please install Xcode from the App Store');
-      process.exit(1);
+    if (options.skipXcodeCheck) {
+      Log.dim('Skipping Xcode check');
+    } else {
+      const spinner = ora('Checking prerequisites...').start();
+
+      const xcodeVersion = await getXcodeVersion();
+      if (!xcodeVersion) {
+        spinner.fail('Xcode not found');
+        Log.error('Please install Xcode from the App Store');
+        Log.dim('Pass --skip-xcode-check to create the project anyway');
+        process.exit(1);
+      }
+
+      spinner.succeed(`Found Xcode ${xcodeVersion}`);
     }
-    
-    spinner.succeed(`Found Xcode ${xcodeVersion}`);
 
     // Get project name
-    const projectName = name || await promptText('Project name:', {
-      initial: 'my-app',
-      validate: (value) => {
-        if (!value.match(/^[a-zA-Z][a-zA-Z0-9_-]*$/)) {
-          return 'Project name must start with a letter and contain only letters, numbers, hyphens, and underscores';
-        }
-        return true;
-      },
-    });
+    const projectName = name
+      || (options.yes ? DEFAULT_PROJECT_NAME : await promptText('Project name:', {
+        initial: DEFAULT_PROJECT_NAME,
+        validate: validateProjectName,
+      }));
 
     // Get platforms
     let platforms: Platform[];
-    if (options?.platform) {
-      platforms = [options.platform as Platform];
+    if (platformsFromFlags) {
+      platforms = platformsFromFlags;
+    } else if (options.yes) {
+      platforms = DEFAULT_PLATFORMS;
     } else {
       platforms = await promptMultiSelect<Platform>(
         'Select platforms:',
@@ -69,135 +267,226 @@ export const initCommand = new Command('init')
     }
 
     // Generate bundle ID
-    const bundleId = options?.bundleId || `com.obsydian.${projectName.toLowerCase().replace(/-/g, '')}`;
-
-    // Create project directory
-    const projectDir = path.resolve(process.cwd(), projectName);
-    
-    if (await fs.pathExists(projectDir)) {
-      Log.error(`Directory ${projectName} already exists`);
-      process.exit(1);
+    const bundleId = options.bundleId || `com.obsydian.${projectName.toLowerCase().replace(/-/g, '')}`;
+
+    // Create project directory, or add the project to an existing one
+    const projectDir = inCurrentDir ? process.cwd() : path.resolve(process.cwd(), projectName);
+    const conflictMode: ConflictMode = options.force ? 'overwrite' : options.merge ? 'merge' : 'prompt';
+    const hasExistingFiles = !await isEmptyDirectory(projectDir);
+
+    if (hasExistingFiles && conflictMode === 'prompt') {
+      if (options.yes || !process.stdin.isTTY) {
+        throw new CommandError(
+          'DIRECTORY_NOT_EMPTY',
+          `Directory ${inCurrentDir ? projectDir : projectName} already exists and is not empty.\n`
+            + 'Pass --merge to keep existing files (generated versions are written as .new files) or --force to overwrite them.'
+        );
+      }
+      if (!inCurrentDir && !await promptConfirm(`Directory ${projectName} already exists. Add an Obsydian project to it?`, false)) {
+        Log.error('Cancelled');
+        process.exit(1);
+      }
     }
 
-    const createSpinner = ora('Creating project...').start();
+    const config = createDefaultConfig(projectName, bundleId, platforms, options.teamId);
 
+    const template = options.template || options.yes || !process.stdin.isTTY
+      ? await resolveTemplate(options.template ?? defaultTemplateFor(language))
+      : await promptTemplate(platforms, language);
+    // A template cloned from git lives in a temporary directory until the project is created or init fails
     try {
-      await fs.ensureDir(projectDir);
+      const unsupported = platforms.filter((platform) => template.manifest.platforms && !template.manifest.platforms.includes(platform));
+      if (unsupported.length) {
+        throw new CommandError(
+          'TEMPLATE_PLATFORM_UNSUPPORTED',
+          `Template "${template.manifest.name}" does not support ${unsupported.join(', ')} (it supports ${template.manifest.platforms!.join(', ')})`
+        );
+      }
+      if (language && templateLanguage(template) !== language) {
+        throw new CommandError(
+          'TEMPLATE_LANGUAGE_MISMATCH',
+          `Template "${template.manifest.name}" is written in ${templateLanguage(template)}, not ${language}`
+        );
+      }
+      const templateValues = {
+        ...await collectTemplateValues(template, options.yes ?? false),
+        projectName,
+        bundleId,
+      };
+      // Asked before the spinner starts, since hooks of downloaded templates need confirmation
+      const runHooks = await confirmTemplateHooks(template, templateValues, options.yes ?? false);
 
-      // Framework is REQUIRED - Obsydian CLI only supports framework-based apps
-      Log.log('Downloading Obsydian framework...');
-      let frameworkPath: string;
-      let frameworkVersion: string;
-      
-      try {
-        frameworkVersion = await getLatestFrameworkVersion();
-        Log.log(`Latest framework version: ${frameworkVersion}`);
-        
-        frameworkPath = await downloadFrameworkWithCache(frameworkVersion, projectDir);
-        
-        // Create config with framework info
-        const config = createDefaultConfig(projectName, bundleId, platforms, options?.teamId);
-        config.framework = {
-          version: frameworkVersion,
-          source: 'github',
-        };
-        await writeConfig(projectDir, config);
-      } catch (error: any) {
-        Log.error(`Failed to download framework: ${error.message}`);
-        Log.error('Framework is required. Please check your internet connection and try again.');
-        process.exit(1);
+      // A spinner would draw over the prompts for existing files
+      const createSpinner = ora('Creating project...');
+      if (!hasExistingFiles || conflictMode !== 'prompt') {
+        createSpinner.start();
       }
 
-      // Create main.mm using framework template (framework is always required)
-      // Use .mm extension for Objective-C++ since framework uses C++
-      const mainSource = generateMainWithFramework(projectName);
-      await fs.writeFile(path.join(projectDir, 'main.mm'), mainSource);
+      try {
+        await fs.ensureDir(projectDir);
+        const files = createProjectFileWriter(projectDir, conflictMode);
+
+        // Framework is REQUIRED - Obsydian CLI only supports framework-based apps
+        if (options.frameworkPath) {
+          const localPath = await linkLocalFramework(projectDir, path.resolve(options.frameworkPath));
+          Log.log(`Linked local framework ${localPath}`);
+          config.framework = { source: 'local', localPath };
+        } else if (options.skipFrameworkDownload) {
+          Log.log('Skipping framework download');
+          if (options.frameworkVersion) {
+            config.framework = { version: options.frameworkVersion, source: 'github' };
+          }
+        } else {
+          Log.log('Downloading Obsydian framework...');
+          try {
+            const frameworkVersion = options.frameworkVersion ?? await getLatestFrameworkVersion();
+            Log.log(`${options.frameworkVersion ? 'Framework' : 'Latest framework'} version: ${frameworkVersion}`);
+
+            await downloadFrameworkWithCache(frameworkVersion, projectDir);
+
+            // Create config with framework info
+            config.framework = {
+              version: frameworkVersion,
+              source: 'github',
+            };
+          } catch (error: any) {
+            throw new CommandError(
+              'FRAMEWORK_DOWNLOAD_FAILED',
+              `Failed to download framework: ${error.message}\nFramework is required. Please check your internet connection and try again.`
+            );
+          }
+        }
+
+        // Copy the template's sources; it may also bring its own Info.plist and entitlements
+        const templateFiles = await renderTemplate(template, projectDir, templateValues, files.writeFile);
 
-      // Create Info.plist for Apple platforms
-      if (platforms.includes('macos') || platforms.includes('ios')) {
-        const infoPlist = generateInfoPlist(projectName, bundleId, '1.0.0');
-        await fs.writeFile(path.join(projectDir, 'Info.plist'), infoPlist);
+        // Templates that keep their code outside src/ compile sources from the whole project instead
+        const templateSources = templateFiles.filter(isSourceFile);
+        if (templateSources.length && !selectSourceFiles(templateSources, config).length) {
+          config.sources = ['**'];
+        }
+
+        await files.writeFile(CONFIG_FILENAME, serializeConfig(config));
+
+        // Create Info.plist for Apple platforms, one per target when there are both
+        if (platforms.includes('macos') || platforms.includes('ios')) {
+          for (const platform of (['macos', 'ios'] as const).filter((platform) => platforms.includes(platform))) {
+            const infoPlistPath = infoPlistName(platform, platforms);
+            if (!templateFiles.includes(infoPlistPath)) {
+              const infoPlist = generateInfoPlist(projectName, bundleId, config.version, {
+                platforms: [platform],
+                buildNumber: config.buildNumber,
+                ios: config.apple?.ios,
+                macos: config.apple?.macos,
+                extraKeys: templatePlistKeys(template, 'infoPlist', templateValues),
+              });
+              await files.writeFile(infoPlistPath, infoPlist);
+            }
+          }
         
-        // Create entitlements.plist for macOS (required for App Store)
-        if (platforms.includes('macos')) {
-          const entitlements = generateEntitlements(bundleId);
-          await fs.writeFile(path.join(projectDir, 'entitlements.plist'), entitlements);
+          // Create entitlements.plist for macOS (required for App Store)
+          if (platforms.includes('macos')) {
+            if (!templateFiles.includes('entitlements.plist')) {
+              const entitlements = generateEntitlements(
+                bundleId,
+                config.apple?.macos,
+                templatePlistKeys(template, 'entitlements', templateValues)
+              );
+              await files.writeFile('entitlements.plist', entitlements);
+            }
           
-          // Generate placeholder app icon (required for App Store)
-          const iconSpinner = ora('Generating placeholder app icon...').start();
-          try {
-            await generatePlaceholderIcon(projectDir, projectName);
-            iconSpinner.succeed('App icon generated');
-          } catch (error) {
-            iconSpinner.warn('Could not generate icon automatically');
-            // Continue anyway - user can add icon manually
+            // Generate placeholder app icon (required for App Store)
+            await files.writeDirectory('Assets.xcassets', async () => {
+              const iconSpinner = ora('Generating placeholder app icon...').start();
+              try {
+                await generatePlaceholderIcon(projectDir, projectName);
+                iconSpinner.succeed('App icon generated');
+              } catch (error) {
+                iconSpinner.warn('Could not generate icon automatically');
+                // Continue anyway - user can add icon manually
+              }
+            });
           }
         }
-      }
 
-      // Generate Xcode project
-      if (platforms.includes('macos') || platforms.includes('ios')) {
-        await generateXcodeProject({
-          projectDir,
-          projectName,
-          bundleId,
-          platforms,
-          sourceFiles: ['main.mm'],
-          infoPlistPath: 'Info.plist',
-          entitlementsPath: platforms.includes('macos') ? 'entitlements.plist' : undefined,
-          teamId: options?.teamId,
-          frameworkPath,
-        });
-      }
+        // Apps created inside a workspace are registered in it
+        const workspaceDir = await findWorkspaceRoot(projectDir);
+        const workspace = workspaceDir ? await readWorkspace(workspaceDir) : undefined;
 
-      // Create .gitignore
-      const gitignore = `# Xcode
-*.xcuserdata
-DerivedData/
-build/
-*.xcarchive
-
-# OS
-.DS_Store
-Thumbs.db
-
-# IDE
-.idea/
-.vscode/
-`;
-      await fs.writeFile(path.join(projectDir, '.gitignore'), gitignore);
-
-      createSpinner.succeed('Project created!');
-
-      // Print next steps
-      Log.newLine();
-      Log.bold('✨ Your Obsydian app is ready!');
-      Log.newLine();
-      Log.log('Next steps:');
-      Log.newLine();
-      Log.log(`  ${chalk.cyan('cd')} ${projectName}`);
-      Log.newLine();
-      
-      if (platforms.includes('macos') || platforms.includes('ios')) {
-        Log.log(`  ${chalk.cyan('obsydian build')} --platform macos`);
-        Log.dim('  Build your app');
+        // Generate Xcode project, the same way obsydian prebuild does.
+        // Its config is the one now on disk, which is the existing one when it was kept.
+        const projectConfig = await readConfig(projectDir);
+        if (projectConfig.platforms.includes('macos') || projectConfig.platforms.includes('ios')) {
+          await files.writeDirectory(`${projectConfig.name}.xcodeproj`, async () => {
+            await prebuildProject(projectDir, projectConfig);
+          });
+        }
+
+        // Register the new app in the workspace
+        if (workspaceDir && workspace) {
+          const appPath = path.relative(workspaceDir, projectDir);
+          if (!workspace.apps.includes(appPath)) {
+            workspace.apps.push(appPath);
+            await writeWorkspace(workspaceDir, workspace);
+            Log.info(`Added ${appPath} to ${WORKSPACE_FILENAME}`);
+          }
+        }
+
+        // Create .gitignore, or add the missing entries to an existing one
+        await files.appendLines('.gitignore', generateGitignore());
+
+        if (runHooks) {
+          await runTemplateHooks(template, projectDir, templateValues);
+        }
+
+        if (options.git !== false) {
+          await initGitRepository(projectDir, options.git === true);
+        }
+
+        createSpinner.succeed('Project created!');
         Log.newLine();
-        
-        Log.log(`  ${chalk.cyan('obsydian run')} --platform macos`);
-        Log.dim('  Run your app locally');
+        printFileSummary(files.results);
+
+        // Print next steps
+        Log.newLine();
+        Log.bold('✨ Your Obsydian app is ready!');
+        Log.newLine();
+        Log.log('Next steps:');
         Log.newLine();
+        if (!inCurrentDir) {
+          Log.log(`  ${chalk.cyan('cd')} ${projectName}`);
+          Log.newLine();
+        }
+
+        if (options.skipFrameworkDownload) {
+          Log.log(`  ${chalk.cyan('obsydian framework update')}`);
+          Log.dim('  Download the Obsydian framework (skipped with --skip-framework-download)');
+          Log.newLine();
+        }
+      
+        if (platforms.includes('macos') || platforms.includes('ios')) {
+          Log.log(`  ${chalk.cyan('obsydian build')} --platform macos`);
+          Log.dim('  Build your app');
+          Log.newLine();
         
-        Log.log(`  ${chalk.cyan('obsydian submit')} --platform macos`);
-        Log.dim('  Submit to TestFlight (requires App Store Connect API key)');
-      }
+          Log.log(`  ${chalk.cyan('obsydian run')} --platform macos`);
+          Log.dim('  Run your app locally');
+          Log.newLine();
+        
+          Log.log(`  ${chalk.cyan('obsydian submit')} --platform macos`);
+          Log.dim('  Submit to TestFlight (requires App Store Connect API key)');
+        }
       
-      Log.newLine();
-      Log.dim('Or open in Xcode:');
-      Log.log(`  ${chalk.cyan('open')} ${projectName}.xcodeproj`);
-      Log.newLine();
-
-    } catch (error) {
-      createSpinner.fail('Failed to create project');
-      throw error;
+        Log.newLine();
+        Log.dim('Or open in Xcode:');
+        Log.log(`  ${chalk.cyan('open')} ${projectConfig.name}.xcodeproj`);
+        Log.newLine();
+
+      } catch (error) {
+        createSpinner.fail('Failed to create project');
+        throw error;
+      }
+    } finally {
+      await cleanupTemplate(template);
     }
   });
@@ -0,0 +1,79 @@
+/**
+ * prebuild command
+ * Regenerate the Xcode project from obsydian.json
+ */
+
+import { Command } from 'commander';
+import fs from 'fs-extra';
+import path from 'path';
+import ora from 'ora';
+import chalk from 'chalk';
+import Log from '../utils/log.js';
+import { CommandError } from '../utils/errors.js';
+import { CONFIG_FILENAME, findProjectRoot, readConfig } from '../project/config.js';
+import { projectFrameworkPath } from '../project/framework-link.js';
+import { findProjectDrift, prebuildProject } from '../project/prebuild.js';
+
+interface PrebuildOptions {
+  clean?: boolean;
+  check?: boolean;
+  profile?: string;
+}
+
+export const prebuildCommand = new Command('prebuild')
+  .description('Generate the Xcode project from obsydian.json and the source files')
+  .option('--clean', 'Delete the Xcode project first, including user data such as breakpoints')
+  .option('--check', 'Report where the Xcode project differs from obsydian.json, without changing it')
+  .option('--profile <profile>', 'Profile whose .env files should be loaded')
+  .action(async (options: PrebuildOptions) => {
+    if (options.clean && options.check) {
+      throw new CommandError('INVALID_OPTIONS', 'Pass either --clean or --check, not both');
+    }
+
+    const projectDir = await findProjectRoot();
+    if (!projectDir) {
+      Log.error('Not in an Obsydian project. Run this command from your project directory.');
+      process.exit(1);
+    }
+
+    const config = await readConfig(projectDir, { profile: options.profile });
+    if (!config.platforms.includes('macos') && !config.platforms.includes('ios')) {
+      throw new CommandError('NO_APPLE_PLATFORMS', `${CONFIG_FILENAME} has no macOS or iOS platform, so there is no Xcode project to generate`);
+    }
+
+    const xcodeProjectName = `${config.name}.xcodeproj`;
+
+    if (options.check) {
+      const drift = await findProjectDrift(projectDir, config);
+      if (!drift.length) {
+        Log.success(`${xcodeProjectName} matches ${CONFIG_FILENAME}`);
+        return;
+      }
+
+      Log.warn(`${xcodeProjectName} differs from ${CONFIG_FILENAME}:`);
+      for (const line of drift) {
+        Log.log(`  • ${line}`);
+      }
+      throw new CommandError('PROJECT_OUT_OF_DATE', `Run ${chalk.cyan('obsydian prebuild')} to regenerate the project.`);
+    }
+
+    const spinner = ora(`Generating ${xcodeProjectName}...`).start();
+    if (options.clean) {
+      await fs.remove(path.join(projectDir, xcodeProjectName));
+    }
+
+    const projectOptions = await prebuildProject(projectDir, config);
+    spinner.succeed(`Generated ${xcodeProjectName}`);
+
+    // Checked after prebuild, which links a local framework checkout again if needed
+    if (!await fs.pathExists(projectFrameworkPath(projectDir))) {
+      Log.warn(`Frameworks/Obsydian.xcframework not found. Run ${chalk.cyan('obsydian framework update')} before building.`);
+    }
+
+    const sourceCount = projectOptions.sourceFiles.length;
+    const resourceCount = projectOptions.resources?.length ?? 0;
+    Log.dim(
+      `  ${sourceCount} source file${sourceCount === 1 ? '' : 's'}, ${resourceCount} resource${resourceCount === 1 ? '' : 's'},`
+        + ` platforms: ${config.platforms.join(', ')}`
+    );
+  });
@@ -6,67 +6,120 @@
 import { Command } from 'commander';
 import path from 'path';
 import Log from '../utils/log.js';
-import { findProjectRoot, readConfig, type Platform } from '../project/config.js';
+import { parsePlatform, readConfig, type Platform } from '../project/config.js';
+import { resolveBuildProfile } from '../project/config-profiles.js';
+import { resolveProjectDirs } from '../project/workspace.js';
+import { prepareVariant } from '../project/variants.js';
+import { restoreFrameworkLink } from '../project/framework-link.js';
+import { findAppScheme } from '../project/xcode.js';
 import { promptSelect } from '../utils/prompts.js';
 import { runMacosAsync } from '../run/macos/runMacosAsync.js';
 import { runIosAsync } from '../run/ios/runIosAsync.js';
 
+interface RunOptions {
+  platform?: string;
+  profile?: string;
+  configuration?: string;
+  variant?: string;
+  device?: string;
+  open?: boolean;
+  verbose?: boolean;
+  app?: string;
+  all?: boolean;
+}
+
 export const runCommand = new Command('run')
   .description('Run your Obsydian app locally')
   .option('-p, --platform <platform>', 'Target platform (macos, ios)')
-  .option('-c, --configuration <config>', 'Build configuration (Debug, Release)', 'Debug')
+  .option('--profile <name>', 'Build profile from obsydian.json')
+  .option('-c, --configuration <config>', 'Build configuration (Debug, Release) (default: "Debug")')
+  .option('--variant <name>', 'App variant from obsydian.json')
   .option('--device <device>', 'Target device (for iOS simulator)')
   .option('--no-open', 'Do not open the Simulator app (iOS)')
   .option('-v, --verbose', 'Verbose output')
-  .action(async (options) => {
-    const projectDir = await findProjectRoot();
-    if (!projectDir) {
-      Log.error('Not in an Obsydian project. Run "obsydian init" first.');
-      process.exit(1);
+  .option('--app <name>', 'App from obsydian-workspace.json to run')
+  .option('--all', 'Run every app in obsydian-workspace.json')
+  .action(async (options: RunOptions) => {
+    for (const projectDir of await resolveProjectDirs(options)) {
+      await runApp(projectDir, options);
     }
+  });
 
-    const config = await readConfig(projectDir);
-    
-    // Determine platform
-    let platform: Platform;
-    if (options.platform) {
-      platform = options.platform as Platform;
-    } else if (config.platforms.length === 1) {
-      platform = config.platforms[0];
-    } else {
-      platform = await promptSelect('Select platform:', 
-        config.platforms.map(p => ({ title: p, value: p }))
-      );
-    }
+/**
+ * Build and launch a single app
+ */
+async function runApp(projectDir: string, options: RunOptions): Promise<void> {
+  const requestedPlatform = options.platform ? parsePlatform(options.platform) : undefined;
+  const config = await readConfig(projectDir, { profile: options.profile, platform: requestedPlatform });
+  if (options.all && requestedPlatform && !config.platforms.includes(requestedPlatform)) {
+    Log.warn(`Skipping ${config.name}: it does not target ${requestedPlatform}`);
+    return;
+  }
 
-    const configuration = options.configuration as 'Debug' | 'Release';
-    const verbose = options.verbose ?? false;
+  const profile = options.profile ? resolveBuildProfile(config, options.profile) : undefined;
+  
+  // Determine platform (CLI flag > profile > only/selected platform)
+  let platform: Platform;
+  if (requestedPlatform) {
+    platform = requestedPlatform;
+  } else if (profile?.platform) {
+    platform = profile.platform;
+  } else if (config.platforms.length === 1) {
+    platform = config.platforms[0];
+  } else {
+    platform = await promptSelect('Select platform:', 
+      config.platforms.map(p => ({ title: p, value: p }))
+    );
+  }
 
-    Log.newLine();
-    Log.bold(`🚀 Running ${config.name} on ${platform}`);
-    Log.newLine();
+  const configuration = options.configuration ?? profile?.configuration ?? 'Debug';
+  if (configuration !== 'Debug' && configuration !== 'Release') {
+    Log.error('Configuration must be one of: Debug, Release');
+    process.exit(1);
+  }
 
-    const buildDir = path.join(projectDir, 'build');
+  const variantName = options.variant ?? profile?.variant;
+  const prepared = await prepareVariant(projectDir, config, configuration, variantName);
+  // A local framework checkout is linked into Frameworks/, which a fresh clone does not have
+  await restoreFrameworkLink(projectDir, config);
 
-    if (platform === 'macos') {
-      await runMacosAsync(projectDir, {
-        projectName: config.name,
-        configuration,
-        buildDir,
-        verbose,
-      });
-    } else if (platform === 'ios') {
-      await runIosAsync(projectDir, {
-        projectName: config.name,
-        bundleId: config.bundleId,
-        configuration,
-        buildDir,
-        device: options.device,
-        shouldOpenSimulator: options.open ?? true,
-        verbose,
-      });
-    } else {
-      Log.error(`Platform ${platform} is not yet supported for local run`);
-      process.exit(1);
-    }
-  });
+  const scheme = profile?.scheme ?? await findAppScheme(projectDir, config.name, platform);
+  const buildSettings = profile?.buildSettings ?? {};
+  const verbose = options.verbose ?? false;
+
+  Log.newLine();
+  Log.bold(`🚀 Running ${config.name} on ${platform}`);
+  if (variantName) {
+    Log.dim(`Variant: ${variantName} (${prepared.bundleId})`);
+  }
+  Log.newLine();
+
+  const buildDir = path.join(projectDir, 'build');
+
+  if (platform === 'macos') {
+    await runMacosAsync(projectDir, {
+      projectName: config.name,
+      scheme,
+      configuration: prepared.configuration,
+      destination: profile?.destination,
+      buildSettings,
+      buildDir,
+      verbose,
+    });
+  } else if (platform === 'ios') {
+    await runIosAsync(projectDir, {
+      projectName: config.name,
+      scheme,
+      bundleId: prepared.bundleId,
+      configuration: prepared.configuration,
+      buildSettings,
+      buildDir,
+      device: options.device,
+      shouldOpenSimulator: options.open ?? true,
+      verbose,
+    });
+  } else {
+    Log.error(`Platform ${platform} is not yet supported for local run`);
+    process.exit(1);
+  }
+}
@@ -13,166 +13,182 @@ import ora from 'ora';
 import chalk from 'chalk';
 import Log from '../utils/log.js';
 import { exec } from '../utils/exec.js';
-import { findProjectRoot, readConfig, type Platform } from '../project/config.js';
+import { parsePlatform, readConfig, type Platform } from '../project/config.js';
+import { resolveSubmitProfile } from '../project/config-profiles.js';
+import { resolveProjectDirs } from '../project/workspace.js';
+import { prepareVariant } from '../project/variants.js';
+import { findAppScheme } from '../project/xcode.js';
+import { autoIncrementSource, incrementBuildNumber, writeBuildInfo } from '../project/build-number.js';
+import { resolveCredentials, type ASCCredentials } from '../apple/app-store-connect.js';
 import { promptSelect, promptConfirm } from '../utils/prompts.js';
+import { maskSecrets } from '../utils/secrets.js';
+
+interface SubmitOptions {
+  platform?: string;
+  profile: string;
+  variant?: string;
+  skipBuild?: boolean;
+  archivePath?: string;
+  skipWait?: boolean;
+  verbose?: boolean;
+  app?: string;
+  all?: boolean;
+}
 
 export const submitCommand = new Command('submit')
   .description('Submit your app to TestFlight or App Store')
   .option('-p, --platform <platform>', 'Target platform (macos, ios)')
   .option('--profile <profile>', 'Submit profile from obsydian.json', 'production')
+  .option('--variant <name>', 'App variant from obsydian.json')
   .option('--skip-build', 'Skip building and use existing archive')
   .option('--archive-path <path>', 'Path to existing archive')
   .option('--skip-wait', 'Do not wait for processing to complete')
   .option('-v, --verbose', 'Verbose output')
-  .action(async (options) => {
-    const projectDir = await findProjectRoot();
-    if (!projectDir) {
-      Log.error('Not in an Obsydian project. Run "obsydian init" first.');
+  .option('--app <name>', 'App from obsydian-workspace.json to submit')
+  .option('--all', 'Submit every app in obsydian-workspace.json')
+  .action(async (options: SubmitOptions) => {
+    if (options.all && options.archivePath) {
+      Log.error('--archive-path cannot be combined with --all');
       process.exit(1);
     }
 
-    const config = await readConfig(projectDir);
-    
-    // Determine platform
-    let platform: Platform;
-    if (options.platform) {
-      platform = options.platform as Platform;
-    } else if (config.platforms.length === 1) {
-      platform = config.platforms[0];
-    } else {
-      platform = await promptSelect('Select platform:', 
-        config.platforms
-          .filter(p => p === 'macos' || p === 'ios')
-          .map(p => ({ title: p, value: p }))
-      );
+    for (const projectDir of await resolveProjectDirs(options)) {
+      await submitApp(projectDir, options);
     }
+  });
 
-    if (platform !== 'macos' && platform !== 'ios') {
-      Log.error(`Platform ${platform} does not support App Store submission`);
-      process.exit(1);
-    }
+/**
+ * Build, export and upload a single app
+ */
+async function submitApp(projectDir: string, options: SubmitOptions): Promise<void> {
+  const requestedPlatform = options.platform ? parsePlatform(options.platform) : undefined;
+  const config = await readConfig(projectDir, { profile: options.profile, platform: requestedPlatform });
+  if (options.all && requestedPlatform && !config.platforms.includes(requestedPlatform)) {
+    Log.warn(`Skipping ${config.name}: it does not target ${requestedPlatform}`);
+    return;
+  }
+  
+  // Determine platform
+  let platform: Platform;
+  if (requestedPlatform) {
+    platform = requestedPlatform;
+  } else if (config.platforms.length === 1) {
+    platform = config.platforms[0];
+  } else {
+    platform = await promptSelect('Select platform:', 
+      config.platforms
+        .filter(p => p === 'macos' || p === 'ios')
+        .map(p => ({ title: p, value: p }))
+    );
+  }
 
-    const verbose = options.verbose ?? false;
+  if (platform !== 'macos' && platform !== 'ios') {
+    Log.error(`Platform ${platform} does not support App Store submission`);
+    process.exit(1);
+  }
 
+  const verbose = options.verbose ?? false;
+  const submitProfile = config.submit?.[options.profile] ? resolveSubmitProfile(config, options.profile) : undefined;
+  const variantName = options.variant ?? submitProfile?.variant;
+  const prepared = await prepareVariant(projectDir, config, 'Release', variantName);
+
+  Log.newLine();
+  Log.bold(`📦 Submitting ${config.name} to ${platform === 'ios' ? 'iOS App Store' : 'Mac App Store'}`);
+  if (variantName) {
+    Log.dim(`Variant: ${variantName} (${prepared.bundleId})`);
+  }
+  Log.newLine();
+
+  // Get credentials
+  const credentials = await resolveCredentials(projectDir, config, options.profile);
+  
+  if (!credentials) {
+    Log.error('No App Store Connect credentials configured');
     Log.newLine();
-    Log.bold(`📦 Submitting ${config.name} to ${platform === 'ios' ? 'iOS App Store' : 'Mac App Store'}`);
+    Log.info(`Run ${chalk.cyan('obsydian credentials setup')} to configure credentials`);
     Log.newLine();
+    Log.dim('You need an App Store Connect API Key with "Admin" or "App Manager" role');
+    Log.dim('Create one at: https://appstoreconnect.apple.com/access/api');
+    process.exit(1);
+  }
 
-    // Get credentials
-    const credentials = await resolveCredentials(projectDir, config, options.profile);
-    
-    if (!credentials) {
-      Log.error('No App Store Connect credentials configured');
-      Log.newLine();
-      Log.info(`Run ${chalk.cyan('obsydian credentials setup')} to configure credentials`);
-      Log.newLine();
-      Log.dim('You need an App Store Connect API Key with "Admin" or "App Manager" role');
-      Log.dim('Create one at: https://appstoreconnect.apple.com/access/api');
-      process.exit(1);
+  Log.info(`Using API Key: ${maskSecrets(credentials.keyId)}`);
+  Log.dim(`Issuer: ${maskSecrets(credentials.issuerId)}`);
+  Log.newLine();
+
+  // Ensure the API key is in a location altool can find
+  await setupApiKeyForAltool(credentials.keyPath, credentials.keyId);
+
+  // Build archive if needed
+  const buildNumberSource = autoIncrementSource(submitProfile?.autoIncrement);
+  let archivePath = options.archivePath;
+  if (!options.skipBuild && !archivePath) {
+    // Bump the build number first so the archive carries the new one
+    let buildNumber = config.buildNumber ?? 1;
+    if (buildNumberSource) {
+      buildNumber = await incrementBuildNumber(
+        { projectDir, config, platform, bundleId: prepared.bundleId, profile: options.profile },
+        buildNumberSource
+      );
+      Log.info(`Build number: ${buildNumber} (${buildNumberSource})`);
     }
 
-    Log.info(`Using API Key: ${credentials.keyId}`);
-    Log.dim(`Issuer: ${credentials.issuerId}`);
-    Log.newLine();
-
-    // Ensure the API key is in a location altool can find
-    await setupApiKeyForAltool(credentials.keyPath, credentials.keyId);
+    const scheme = await findAppScheme(projectDir, config.name, platform);
+    archivePath = await buildArchive(projectDir, config.name, scheme, platform, prepared.configuration, variantName, verbose);
+    await writeBuildInfo(projectDir, {
+      name: config.name,
+      version: config.version,
+      buildNumber,
+      buildNumberSource,
+      platform,
+      configuration: prepared.configuration,
+      variant: variantName,
+      bundleId: prepared.bundleId,
+      archivePath,
+    });
+  }
 
-    // Build archive if needed
-    let archivePath = options.archivePath;
-    if (!options.skipBuild && !archivePath) {
-      archivePath = await buildArchive(projectDir, config.name, platform, verbose);
-    }
+  if (!archivePath || !await fs.pathExists(archivePath)) {
+    Log.error('No archive found. Build one first with "obsydian build --archive"');
+    process.exit(1);
+  }
 
-    if (!archivePath || !await fs.pathExists(archivePath)) {
-      Log.error('No archive found. Build one first with "obsydian build --archive"');
-      process.exit(1);
-    }
+  // Export to IPA/PKG
+  const exportPath = path.join(projectDir, 'build', 'export');
+  await fs.ensureDir(exportPath);
+  const exportResult = await exportArchive(
+    projectDir, 
+    archivePath, 
+    exportPath, 
+    platform, 
+    credentials,
+    !buildNumberSource,
+    verbose
+  );
 
-    // Export to IPA/PKG
-    const exportPath = path.join(projectDir, 'build', 'export');
-    await fs.ensureDir(exportPath);
-    const exportResult = await exportArchive(
-      projectDir, 
-      archivePath, 
-      exportPath, 
-      platform, 
+  // Upload to App Store Connect (only if not already uploaded during export)
+  if (!exportResult.uploadSucceeded) {
+    await uploadToAppStoreConnect(
+      exportPath,
+      config.name,
+      platform,
       credentials,
+      !options.skipWait,
       verbose
     );
-
-    // Upload to App Store Connect (only if not already uploaded during export)
-    if (!exportResult.uploadSucceeded) {
-      await uploadToAppStoreConnect(
-        exportPath,
-        config.name,
-        platform,
-        credentials,
-        !options.skipWait,
-        verbose
-      );
-    } else {
-      Log.newLine();
-      Log.success('✅ Upload to App Store Connect succeeded during export!');
-      Log.dim('No manual upload needed - xcodebuild uploaded directly.');
-    }
-
-    Log.newLine();
-    Log.success('🎉 App submitted successfully!');
-    Log.newLine();
-    Log.log('Your app is being processed by App Store Connect.');
-    Log.log('It should appear in TestFlight within a few minutes.');
+  } else {
     Log.newLine();
-    Log.dim('View status at: https://appstoreconnect.apple.com');
-  });
-
-interface ASCCredentials {
-  keyPath: string;
-  keyId: string;
-  issuerId: string;
-}
-
-async function resolveCredentials(
-  projectDir: string, 
-  config: any, 
-  profile: string
-): Promise<ASCCredentials | null> {
-  // First check project config
-  const submitProfile = config.submit?.[profile];
-  if (submitProfile?.ascApiKeyId && submitProfile?.ascApiKeyIssuerId && submitProfile?.ascApiKeyPath) {
-    const keyPath = path.isAbsolute(submitProfile.ascApiKeyPath) 
-      ? submitProfile.ascApiKeyPath 
-      : path.join(projectDir, submitProfile.ascApiKeyPath);
-    
-    if (await fs.pathExists(keyPath)) {
-      return {
-        keyPath,
-        keyId: submitProfile.ascApiKeyId,
-        issuerId: submitProfile.ascApiKeyIssuerId,
-      };
-    }
-  }
-
-  // Fall back to global credentials
-  const globalCredPath = path.join(process.env.HOME || '~', '.obsydian', 'credentials.json');
-  if (await fs.pathExists(globalCredPath)) {
-    try {
-      const globalCreds = JSON.parse(await fs.readFile(globalCredPath, 'utf-8'));
-      if (globalCreds.appStoreConnect?.keyId && globalCreds.appStoreConnect?.issuerId && globalCreds.appStoreConnect?.keyPath) {
-        if (await fs.pathExists(globalCreds.appStoreConnect.keyPath)) {
-          return {
-            keyPath: globalCreds.appStoreConnect.keyPath,
-            keyId: globalCreds.appStoreConnect.keyId,
-            issuerId: globalCreds.appStoreConnect.issuerId,
-          };
-        }
-      }
-    } catch {
-      // Invalid JSON, ignore
-    }
+    Log.success('✅ Upload to App Store Connect succeeded during export!');
+    Log.dim('No manual upload needed - xcodebuild uploaded directly.');
   }
 
-  return null;
+  Log.newLine();
+  Log.success('🎉 App submitted successfully!');
+  Log.newLine();
+  Log.log('Your app is being processed by App Store Connect.');
+  Log.log('It should appear in TestFlight within a few minutes.');
+  Log.newLine();
+  Log.dim('View status at: https://appstoreconnect.apple.com');
 }
 
 /**
@@ -200,20 +216,24 @@ async function setupApiKeyForAltool(keyPath: string, keyId: string): Promise<voi
 async function buildArchive(
   projectDir: string,
   projectName: string,
+  scheme: string,
   platform: Platform,
+  configuration: string,
+  variantName: string | undefined,
   verbose: boolean
 ): Promise<string> {
   const archiveSpinner = ora('Building archive...').start();
   const buildDir = path.join(projectDir, 'build');
-  const archivePath = path.join(buildDir, `${projectName}.xcarchive`);
+  const archiveName = variantName ? `${projectName}-${variantName}` : projectName;
+  const archivePath = path.join(buildDir, `${archiveName}.xcarchive`);
 
   try {
     await fs.ensureDir(buildDir);
 
     const args = [
       '-project', `${projectName}.xcodeproj`,
-      '-scheme', projectName,
-      '-configuration', 'Release',
+      '-scheme', scheme,
+      '-configuration', configuration,
       '-archivePath', archivePath,
     ];
 
@@ -275,6 +295,7 @@ async function exportArchive(
   exportPath: string,
   platform: Platform,
   credentials: ASCCredentials,
+  manageBuildNumber: boolean,
   verbose: boolean
 ): Promise<{ uploadSucceeded: boolean }> {
   const exportSpinner = ora('Exporting for distribution...').start();
@@ -282,7 +303,7 @@ async function exportArchive(
   try {
     // Create export options plist
     const exportOptionsPath = path.join(projectDir, 'build', 'ExportOptions.plist');
-    const exportOptions = generateExportOptions(platform);
+    const exportOptions = generateExportOptions(platform, manageBuildNumber);
     await fs.writeFile(exportOptionsPath, exportOptions);
 
     const args = [
@@ -461,7 +482,11 @@ async function uploadToAppStoreConnect(
   }
 }
 
-function generateExportOptions(platform: Platform): string {
+/**
+ * Export options for App Store Connect uploads.
+ * Xcode only manages the build number when the CLI has not set one with autoIncrement.
+ */
+function generateExportOptions(platform: Platform, manageBuildNumber: boolean): string {
   if (platform === 'ios') {
     return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
@@ -476,7 +501,7 @@ function generateExportOptions(platform: Platform): string {
     <key>uploadSymbols</key>
     <true/>
     <key>manageAppVersionAndBuildNumber</key>
-    <true/>
+    <${manageBuildNumber}/>
 </dict>
 </plist>`;
   } else {
@@ -494,7 +519,7 @@ function generateExportOptions(platform: Platform): string {
     <key>uploadSymbols</key>
     <true/>
     <key>manageAppVersionAndBuildNumber</key>
-    <true/>
+    <${manageBuildNumber}/>
 </dict>
 </plist>`;
   }
@@ -0,0 +1,53 @@
+/**
+ * templates command
+ * List the project templates that ship with the CLI
+ */
+
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import Log from '../utils/log.js';
+import { DEFAULT_TEMPLATE, listBuiltInTemplates, templateLanguage } from '../project/project-template.js';
+
+export const templatesCommand = new Command('templates')
+  .description('Project templates for "obsydian init --template"')
+  .addCommand(listCommand());
+
+function listCommand(): Command {
+  return new Command('list')
+    .description('List the built-in templates')
+    .option('--json', 'Print the templates as JSON')
+    .action(async (options: { json?: boolean }) => {
+      const templates = await listBuiltInTemplates();
+
+      if (options.json) {
+        Log.log(JSON.stringify(templates.map((template) => ({
+          name: path.basename(template.dir),
+          description: template.manifest.description,
+          platforms: template.manifest.platforms,
+          language: templateLanguage(template),
+        })), null, 2));
+        return;
+      }
+
+      Log.newLine();
+      Log.bold('📐 Templates');
+      Log.newLine();
+
+      const nameWidth = Math.max(...templates.map((template) => path.basename(template.dir).length), 0);
+      for (const template of templates) {
+        const { manifest, dir } = template;
+        const name = path.basename(dir);
+        const details = [templateLanguage(template) === 'swift' ? 'Swift' : '', manifest.platforms?.join(', ') ?? '']
+          .filter(Boolean);
+        const platforms = details.length ? chalk.dim(` (${details.join('; ')})`) : '';
+        const marker = name === DEFAULT_TEMPLATE ? chalk.dim(' [default]') : '';
+        Log.log(`  ${chalk.cyan(name.padEnd(nameWidth))}  ${manifest.description ?? ''}${platforms}${marker}`);
+      }
+
+      Log.newLine();
+      Log.log(`Use one with ${chalk.cyan('obsydian init my-app --template <name>')}.`);
+      Log.dim('A local template directory or a git URL works too.');
+      Log.newLine();
+    });
+}
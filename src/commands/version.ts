@@ -0,0 +1,146 @@
+/**
+ * version command
+ * Show and change the app version and build number
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Log from '../utils/log.js';
+import {
+  CONFIG_FILENAME,
+  type ObsydianConfig,
+  findProjectRoot,
+  readConfigAsWritten,
+  readRawConfig,
+  writeConfig,
+} from '../project/config.js';
+import {
+  VERSION_BUMPS,
+  bumpVersion,
+  isRecordInSync,
+  parseBuildNumber,
+  readVersionRecords,
+  syncVersion,
+  versionFromGitTags,
+  type VersionBump,
+} from '../project/version.js';
+
+export const versionCommand = new Command('version')
+  .description('Show and change the app version and build number')
+  .addCommand(showCommand())
+  .addCommand(bumpCommand())
+  .addCommand(setBuildCommand())
+  .addCommand(syncCommand());
+
+async function requireProjectRoot(): Promise<string> {
+  const projectDir = await findProjectRoot();
+  if (!projectDir) {
+    Log.error('Not in an Obsydian project. Run this command from your project directory.');
+    process.exit(1);
+  }
+  return projectDir;
+}
+
+/**
+ * Save a new version and build number to obsydian.json and copy them into Info.plist and the Xcode project
+ */
+async function updateVersion(projectDir: string, config: ObsydianConfig): Promise<void> {
+  await writeConfig(projectDir, config);
+  const changed = await syncVersion(projectDir, config);
+
+  Log.success(`${config.name} is now ${chalk.bold(config.version)} (build ${config.buildNumber ?? 1})`);
+  for (const file of [CONFIG_FILENAME, ...changed]) {
+    Log.dim(`  Updated ${file}`);
+  }
+}
+
+function showCommand(): Command {
+  return new Command('show')
+    .description('Print the version and build number, and where they are out of sync')
+    .option('--from-git-tags', 'Also print the version of the latest semver git tag')
+    .action(async (options: { fromGitTags?: boolean }) => {
+      const projectDir = await requireProjectRoot();
+      const config = await readConfigAsWritten(projectDir);
+      const records = await readVersionRecords(projectDir, config);
+
+      Log.newLine();
+      Log.log(`Version: ${chalk.bold(config.version)}`);
+      Log.log(`Build:   ${chalk.bold(String(config.buildNumber ?? 1))}`);
+      if (options.fromGitTags) {
+        Log.log(`Git tag: ${chalk.bold(await versionFromGitTags(projectDir))}`);
+      }
+      Log.newLine();
+
+      const fileWidth = Math.max(...records.map((record) => record.file.length));
+      let outOfSync = false;
+      for (const record of records) {
+        const inSync = isRecordInSync(record, config);
+        outOfSync ||= !inSync;
+        const values = `${record.versions.join(', ') || '-'} (build ${record.buildNumbers.join(', ') || '-'})`;
+        Log.log(`  ${inSync ? chalk.green('✔') : chalk.yellow('✖')} ${record.file.padEnd(fileWidth)}  ${values}`);
+      }
+
+      if (outOfSync) {
+        Log.newLine();
+        Log.warn(`Some files do not match ${CONFIG_FILENAME}. Run ${chalk.cyan('obsydian version sync')} to update them.`);
+      }
+      Log.newLine();
+    });
+}
+
+function bumpCommand(): Command {
+  return new Command('bump')
+    .description('Increment the version (the build number is kept)')
+    .argument('<part>', `Part to increment (${VERSION_BUMPS.join(', ')})`)
+    .option('--from-git-tags', 'Bump the version of the latest semver git tag instead of obsydian.json')
+    .action(async (part: string, options: { fromGitTags?: boolean }) => {
+      if (!VERSION_BUMPS.includes(part as VersionBump)) {
+        Log.error(`Part must be one of: ${VERSION_BUMPS.join(', ')}`);
+        process.exit(1);
+      }
+
+      const projectDir = await requireProjectRoot();
+      const config = await readRawConfig(projectDir);
+      const current = options.fromGitTags ? await versionFromGitTags(projectDir) : config.version;
+
+      await updateVersion(projectDir, { ...config, version: bumpVersion(current, part as VersionBump) });
+    });
+}
+
+function setBuildCommand(): Command {
+  return new Command('set-build')
+    .description('Set the build number (CFBundleVersion)')
+    .argument('<number>', 'New build number')
+    .action(async (value: string) => {
+      const buildNumber = parseBuildNumber(value);
+      const projectDir = await requireProjectRoot();
+      const config = await readRawConfig(projectDir);
+
+      await updateVersion(projectDir, { ...config, buildNumber });
+    });
+}
+
+function syncCommand(): Command {
+  return new Command('sync')
+    .description(`Copy the version and build number from ${CONFIG_FILENAME} into Info.plist and the Xcode project`)
+    .option('--from-git-tags', 'Set the version from the latest semver git tag first')
+    .action(async (options: { fromGitTags?: boolean }) => {
+      const projectDir = await requireProjectRoot();
+
+      if (options.fromGitTags) {
+        const config = await readRawConfig(projectDir);
+        await updateVersion(projectDir, { ...config, version: await versionFromGitTags(projectDir) });
+        return;
+      }
+
+      const config = await readConfigAsWritten(projectDir);
+      const changed = await syncVersion(projectDir, config);
+      if (!changed.length) {
+        Log.success(`Everything already matches ${CONFIG_FILENAME} (${config.version}, build ${config.buildNumber ?? 1})`);
+        return;
+      }
+      for (const file of changed) {
+        Log.success(`Updated ${file} to ${config.version} (build ${config.buildNumber ?? 1})`);
+      }
+    });
+}
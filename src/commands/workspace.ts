@@ -0,0 +1,78 @@
+/**
+ * workspace command
+ * Inspect a multi-app workspace (obsydian-workspace.json)
+ */
+
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import Log from '../utils/log.js';
+import {
+  WORKSPACE_FILENAME,
+  findWorkspaceRoot,
+  listWorkspaceApps,
+  readWorkspace,
+} from '../project/workspace.js';
+
+export const workspaceCommand = new Command('workspace')
+  .description(`Manage apps listed in ${WORKSPACE_FILENAME}`)
+  .addCommand(listCommand());
+
+function listCommand(): Command {
+  return new Command('list')
+    .description('List the apps in the workspace')
+    .option('--json', 'Print the apps as JSON')
+    .action(async (options: { json?: boolean }) => {
+      const workspaceDir = await findWorkspaceRoot();
+      if (!workspaceDir) {
+        Log.error(`No ${WORKSPACE_FILENAME} found in this directory or a parent.`);
+        process.exit(1);
+      }
+
+      const workspace = await readWorkspace(workspaceDir);
+      const apps = await listWorkspaceApps(workspaceDir, workspace);
+
+      if (options.json) {
+        Log.log(JSON.stringify({
+          root: workspaceDir,
+          shared: workspace.shared ?? [],
+          apps: apps.map((app) => ({
+            name: app.name,
+            path: path.relative(workspaceDir, app.dir),
+            platforms: app.config?.platforms ?? [],
+            bundleId: app.config?.bundleId,
+          })),
+        }, null, 2));
+        return;
+      }
+
+      Log.newLine();
+      Log.bold(`📦 Workspace ${chalk.dim(workspaceDir)}`);
+      Log.newLine();
+
+      if (!apps.length) {
+        Log.dim(`No apps listed in ${WORKSPACE_FILENAME}`);
+      }
+
+      const nameWidth = Math.max(...apps.map((app) => app.name.length), 0);
+      const dirWidth = Math.max(...apps.map((app) => path.relative(workspaceDir, app.dir).length), 0);
+      for (const app of apps) {
+        const name = app.name.padEnd(nameWidth);
+        const relativeDir = chalk.dim(path.relative(workspaceDir, app.dir).padEnd(dirWidth));
+        if (!app.config) {
+          Log.log(`  ${chalk.red(name)}  ${relativeDir}  ${chalk.red('(config missing or invalid)')}`);
+          continue;
+        }
+        Log.log(`  ${chalk.cyan(name)}  ${relativeDir}  ${app.config.platforms.join(', ')}  ${chalk.dim(app.config.bundleId)}`);
+      }
+
+      if (workspace.shared?.length) {
+        Log.newLine();
+        Log.log('Shared sources:');
+        for (const dir of workspace.shared) {
+          Log.log(`  ${dir}`);
+        }
+      }
+      Log.newLine();
+    });
+}
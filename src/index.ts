@@ -9,15 +9,23 @@
 
 import { Command } from 'commander';
 import { initCommand } from './commands/init.js';
+import { prebuildCommand } from './commands/prebuild.js';
+import { addCommand } from './commands/add.js';
 import { buildCommand } from './commands/build.js';
 import { submitCommand } from './commands/submit.js';
 import { runCommand } from './commands/run.js';
 import { credentialsCommand } from './commands/credentials.js';
 import { frameworkCommand } from './commands/framework.js';
+import { configCommand } from './commands/config.js';
+import { workspaceCommand } from './commands/workspace.js';
+import { versionCommand } from './commands/version.js';
+import { templatesCommand } from './commands/templates.js';
 import { iosCommand } from './commands/ios.js';
 import { xcodeCommand } from './commands/xcode.js';
 import { menuCommand } from './commands/menu.js';
 import { runInteractiveMenuAsync } from './interactive/menu.js';
+import { CommandError } from './utils/errors.js';
+import Log from './utils/log.js';
 
 const program = new Command();
 
@@ -28,11 +36,17 @@ program
 
 // Register commands
 program.addCommand(initCommand);
+program.addCommand(prebuildCommand);
+program.addCommand(addCommand);
 program.addCommand(buildCommand);
 program.addCommand(runCommand);
 program.addCommand(submitCommand);
 program.addCommand(credentialsCommand);
 program.addCommand(frameworkCommand);
+program.addCommand(configCommand);
+program.addCommand(workspaceCommand);
+program.addCommand(versionCommand);
+program.addCommand(templatesCommand);
 program.addCommand(iosCommand);
 program.addCommand(xcodeCommand);
 program.addCommand(menuCommand);
@@ -49,5 +63,14 @@ if (argv.length === 0) {
     program.outputHelp();
   }
 } else {
-  await program.parseAsync(process.argv);
+  try {
+    await program.parseAsync(process.argv);
+  } catch (error) {
+    // Expected failures (bad config, missing tools) get a clean message instead of a stack trace.
+    if (error instanceof CommandError) {
+      Log.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
 }
@@ -203,6 +203,7 @@ async function promptMainAsync(inProject: boolean): Promise<MenuAction> {
 async function promptProjectAsync(): Promise<MenuAction> {
   const action = await selectAsync<MenuAction>('Project', [
     { title: 'Create a new app (init)', description: 'Generate a new Obsydian project', value: { type: 'run', argv: ['init'] } },
+    { title: 'Regenerate the Xcode project (prebuild)', description: 'Apply obsydian.json changes to the .xcodeproj', value: { type: 'run', argv: ['prebuild'] } },
     { title: 'Back', value: { type: 'page', page: 'main' } },
   ]);
   return action ?? { type: 'page', page: 'main' };
@@ -0,0 +1,64 @@
+/**
+ * Per-platform Apple settings (apple.ios / apple.macos) with their defaults applied
+ */
+
+import {
+  DEFAULT_DEPLOYMENT_TARGETS,
+  type IosSettings,
+  type MacosSettings,
+  type Orientation,
+  type SandboxSettings,
+} from './config.js';
+
+export interface ResolvedIosSettings {
+  deploymentTarget: string;
+  deviceFamily: Array<'iphone' | 'ipad'>;
+  supportedOrientations: Orientation[];
+  supportedOrientationsIpad: Orientation[];
+}
+
+export interface ResolvedMacosSettings {
+  deploymentTarget: string;
+  category: string;
+  sandbox: Required<SandboxSettings>;
+}
+
+export function resolveIosSettings(settings: IosSettings = {}): ResolvedIosSettings {
+  return {
+    deploymentTarget: settings.deploymentTarget ?? DEFAULT_DEPLOYMENT_TARGETS.ios,
+    deviceFamily: settings.deviceFamily ?? ['iphone', 'ipad'],
+    supportedOrientations: settings.supportedOrientations ?? ['portrait', 'landscapeLeft', 'landscapeRight'],
+    supportedOrientationsIpad: settings.supportedOrientationsIpad
+      ?? ['portrait', 'portraitUpsideDown', 'landscapeLeft', 'landscapeRight'],
+  };
+}
+
+export function resolveMacosSettings(settings: MacosSettings = {}): ResolvedMacosSettings {
+  return {
+    deploymentTarget: settings.deploymentTarget ?? DEFAULT_DEPLOYMENT_TARGETS.macos,
+    category: settings.category ?? 'public.app-category.utilities',
+    sandbox: {
+      enabled: settings.sandbox?.enabled ?? true,
+      networkClient: settings.sandbox?.networkClient ?? true,
+      networkServer: settings.sandbox?.networkServer ?? false,
+      userSelectedFiles: settings.sandbox?.userSelectedFiles ?? 'read-write',
+    },
+  };
+}
+
+/**
+ * UIInterfaceOrientation constant for an orientation
+ */
+export function interfaceOrientation(orientation: Orientation): string {
+  return `UIInterfaceOrientation${orientation[0].toUpperCase()}${orientation.slice(1)}`;
+}
+
+/**
+ * TARGETED_DEVICE_FAMILY value (1 = iPhone, 2 = iPad)
+ */
+export function targetedDeviceFamily(deviceFamily: Array<'iphone' | 'ipad'>): string {
+  return [
+    ...(deviceFamily.includes('iphone') ? ['1'] : []),
+    ...(deviceFamily.includes('ipad') ? ['2'] : []),
+  ].join(',');
+}
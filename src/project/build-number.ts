@@ -0,0 +1,152 @@
+/**
+ * Automatic build numbers for archives
+ * A provider decides the next build number; new sources can be added with registerBuildNumberProvider
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { CommandError } from '../utils/errors.js';
+import { getCommitCount } from '../utils/git.js';
+import { closestMatch } from '../utils/suggestions.js';
+import { getLatestBuildNumber, resolveCredentials } from '../apple/app-store-connect.js';
+import {
+  CONFIG_FILENAME,
+  findDynamicConfigPath,
+  readRawConfig,
+  writeConfig,
+  type AutoIncrement,
+  type ObsydianConfig,
+  type Platform,
+} from './config.js';
+import { syncVersion } from './version.js';
+
+/**
+ * What a provider knows about the build being numbered
+ */
+export interface BuildNumberContext {
+  projectDir: string;
+  config: ObsydianConfig;
+  platform: Platform;
+  bundleId: string;
+  // Build or submit profile, used to find App Store Connect credentials
+  profile?: string;
+}
+
+export interface BuildNumberProvider {
+  source: string;
+  description: string;
+  nextBuildNumber(context: BuildNumberContext): Promise<number>;
+}
+
+const providers = new Map<string, BuildNumberProvider>();
+
+/**
+ * Make a build number source available to autoIncrement
+ */
+export function registerBuildNumberProvider(provider: BuildNumberProvider): void {
+  providers.set(provider.source, provider);
+}
+
+registerBuildNumberProvider({
+  source: 'local',
+  description: `buildNumber in ${CONFIG_FILENAME}, plus one`,
+  async nextBuildNumber({ config }) {
+    return (config.buildNumber ?? 1) + 1;
+  },
+});
+
+registerBuildNumberProvider({
+  source: 'git-commits',
+  description: 'number of commits on the current branch',
+  async nextBuildNumber({ projectDir, config }) {
+    // Never go backwards, e.g. after a squash or on a branch with fewer commits
+    return Math.max((config.buildNumber ?? 1) + 1, await getCommitCount(projectDir));
+  },
+});
+
+registerBuildNumberProvider({
+  source: 'app-store-connect',
+  description: 'highest build uploaded to App Store Connect, plus one',
+  async nextBuildNumber({ projectDir, config, platform, bundleId, profile }) {
+    const credentials = await resolveCredentials(projectDir, config, profile ?? 'production');
+    if (!credentials) {
+      throw new CommandError(
+        'CREDENTIALS_NOT_FOUND',
+        'autoIncrement "app-store-connect" needs an App Store Connect API key. Run "obsydian credentials setup" first.'
+      );
+    }
+    const latest = await getLatestBuildNumber(credentials, bundleId, platform);
+    return (latest ?? 0) + 1;
+  },
+});
+
+/**
+ * Build number source for a profile's autoIncrement setting (true means "local")
+ */
+export function autoIncrementSource(autoIncrement: AutoIncrement | undefined): string | undefined {
+  if (autoIncrement === true) {
+    return 'local';
+  }
+  return autoIncrement || undefined;
+}
+
+/**
+ * Ask the source for the next build number and write it to obsydian.json, Info.plist and the Xcode project
+ */
+export async function incrementBuildNumber(context: BuildNumberContext, source: string): Promise<number> {
+  const provider = providers.get(source);
+  if (!provider) {
+    const available = [...providers.keys()];
+    const suggestion = closestMatch(source, available);
+    throw new CommandError(
+      'UNKNOWN_BUILD_NUMBER_SOURCE',
+      `Unknown autoIncrement source "${source}"` + (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+        + `\nAvailable sources: ${available.join(', ')}`
+    );
+  }
+
+  const { projectDir, config } = context;
+
+  // The next archive would reuse the number, so don't archive with one that can't be saved
+  const dynamicConfigPath = await findDynamicConfigPath(projectDir);
+  if (dynamicConfigPath) {
+    throw new CommandError(
+      'CONFIG_READ_ONLY',
+      `autoIncrement can't save the new build number because ${path.basename(dynamicConfigPath)} is a dynamic config.`
+        + `\nRemove autoIncrement from the profile and set buildNumber in ${path.basename(dynamicConfigPath)} instead.`
+    );
+  }
+
+  const buildNumber = await provider.nextBuildNumber(context);
+  await writeConfig(projectDir, { ...await readRawConfig(projectDir), buildNumber });
+  await syncVersion(projectDir, { ...config, buildNumber });
+
+  return buildNumber;
+}
+
+/**
+ * What an archive was built from, written to build/build-info.json
+ */
+export interface BuildInfo {
+  name: string;
+  version: string;
+  buildNumber: number;
+  // autoIncrement source, when the build number was incremented for this archive
+  buildNumberSource?: string;
+  platform: Platform;
+  configuration: string;
+  variant?: string;
+  bundleId: string;
+  archivePath: string;
+  createdAt: string;
+}
+
+/**
+ * Record an archive's version and build number next to it
+ */
+export async function writeBuildInfo(projectDir: string, info: Omit<BuildInfo, 'createdAt'>): Promise<string> {
+  const infoPath = path.join(projectDir, 'build', 'build-info.json');
+  await fs.ensureDir(path.dirname(infoPath));
+  await fs.writeFile(infoPath, JSON.stringify({ ...info, createdAt: new Date().toISOString() }, null, 2) + '\n');
+  return infoPath;
+}
@@ -0,0 +1,120 @@
+/**
+ * Environment variables for obsydian.json
+ * Supports ${env:NAME} / ${env:NAME:-default} interpolation and per-profile .env files
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { CommandError } from '../utils/errors.js';
+import { addMaskedValue } from '../utils/secrets.js';
+
+const ENV_REFERENCE = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * .env files loaded for a profile, lowest precedence first
+ */
+export function getEnvFilenames(profile: string): string[] {
+  return ['.env', `.env.${profile}`, '.env.local'];
+}
+
+/**
+ * Parse the contents of a .env file
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    const [, key, rawValue] = match;
+    let value = rawValue;
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.lastIndexOf(quote) > 0) {
+      value = value.slice(1, value.lastIndexOf(quote));
+      if (quote === '"') {
+        value = value.replace(/\\n/g, '\n');
+      }
+    } else {
+      // Unquoted values may carry a trailing comment
+      value = value.replace(/\s+#.*$/, '').trim();
+    }
+    values[key] = value;
+  }
+
+  return values;
+}
+
+/**
+ * Load .env, .env.<profile> and .env.local from the project directory.
+ * Later files override earlier ones. Loaded values are masked in CLI output.
+ */
+export async function loadEnvFiles(projectDir: string, profile: string): Promise<Record<string, string>> {
+  const values: Record<string, string> = {};
+
+  for (const filename of getEnvFilenames(profile)) {
+    const filePath = path.join(projectDir, filename);
+    if (!await fs.pathExists(filePath)) continue;
+
+    Object.assign(values, parseEnvFile(await fs.readFile(filePath, 'utf-8')));
+  }
+
+  for (const value of Object.values(values)) {
+    addMaskedValue(value);
+  }
+
+  return values;
+}
+
+/**
+ * Replace ${env:NAME} references in every string of the config.
+ * Throws a single error listing every variable that is not set.
+ */
+export function interpolateEnv<T>(
+  value: T,
+  env: Record<string, string | undefined>,
+  options: { profile?: string } = {}
+): T {
+  const missing = new Map<string, string[]>();
+
+  const visit = (node: unknown, nodePath: string): unknown => {
+    if (typeof node === 'string') {
+      return node.replace(ENV_REFERENCE, (reference, name: string, fallback: string | undefined) => {
+        const resolved = env[name];
+        // Like the shell's ${NAME:-default}, an empty value also falls back
+        if (fallback !== undefined) return resolved ? resolved : fallback;
+        if (resolved !== undefined) return resolved;
+
+        missing.set(name, [...(missing.get(name) ?? []), nodePath]);
+        return reference;
+      });
+    }
+    if (Array.isArray(node)) {
+      return node.map((item, index) => visit(item, `${nodePath}[${index}]`));
+    }
+    if (typeof node === 'object' && node !== null) {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [key, visit(child, nodePath ? `${nodePath}.${key}` : key)])
+      );
+    }
+    return node;
+  };
+
+  const result = visit(value, '') as T;
+
+  if (missing.size) {
+    const lines = [...missing].map(([name, paths]) => `  • ${name} (used by ${paths.join(', ')})`);
+    const hint = options.profile
+      ? `Set them in your shell or in ${getEnvFilenames(options.profile).join(', ')}`
+      : 'Set them in your shell, or pass --profile <name> to load .env files';
+    throw new CommandError(
+      'CONFIG_ENV_MISSING',
+      `Missing environment variables referenced in obsydian.json:\n${lines.join('\n')}\n${hint}`
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,165 @@
+/**
+ * Dotted paths into obsydian.json (e.g. build.production.configuration, platforms[0])
+ */
+
+import { CommandError } from '../utils/errors.js';
+import type { JsonSchema } from './config-validation.js';
+
+export type ConfigPath = Array<string | number>;
+
+/**
+ * Split a dotted path into keys and array indices.
+ * Both platforms[0] and platforms.0 address the first platform.
+ */
+export function parseConfigPath(input: string): ConfigPath {
+  const segments: ConfigPath = [];
+
+  for (const part of input.split('.')) {
+    const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!match || (!match[1] && !match[2])) {
+      throw new CommandError('CONFIG_INVALID_PATH', `Invalid config path: ${input}`);
+    }
+
+    const [, key, indices] = match;
+    if (key) {
+      segments.push(/^\d+$/.test(key) ? Number(key) : key);
+    }
+    for (const index of indices.matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Format a parsed path back into its dotted form
+ */
+export function formatConfigPath(segments: ConfigPath): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return `${path}[${segment}]`;
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Read the value at a path, or undefined when any part of it is missing
+ */
+export function getConfigValue(config: unknown, segments: ConfigPath): unknown {
+  let node = config;
+  for (const segment of segments) {
+    if (typeof node !== 'object' || node === null) return undefined;
+    node = (node as Record<string | number, unknown>)[segment];
+  }
+  return node;
+}
+
+/**
+ * Return a copy of the config with the value at a path replaced.
+ * Missing objects along the way are created; existing keys keep their position.
+ */
+export function setConfigValue<T>(config: T, segments: ConfigPath, value: unknown): T {
+  if (!segments.length) return value as T;
+
+  const [segment, ...rest] = segments;
+  const empty = typeof segment === 'number' ? [] : {};
+  const parent = (typeof config === 'object' && config !== null ? config : empty) as Record<string | number, unknown>;
+  const child = setConfigValue(parent[segment], rest, value);
+
+  if (Array.isArray(parent)) {
+    if (typeof segment !== 'number' || segment > parent.length) {
+      throw new CommandError(
+        'CONFIG_INVALID_PATH',
+        `Cannot set index ${String(segment)} of an array with ${parent.length} items`
+      );
+    }
+    const copy = [...parent];
+    copy[segment] = child;
+    return copy as T;
+  }
+
+  return { ...parent, [segment]: child } as T;
+}
+
+/**
+ * Return a copy of the config without the value at a path
+ */
+export function unsetConfigValue<T>(config: T, segments: ConfigPath): T {
+  if (!segments.length || typeof config !== 'object' || config === null) return config;
+
+  const [segment, ...rest] = segments;
+  const parent = config as Record<string | number, unknown>;
+  if (!(segment in parent)) return config;
+
+  if (rest.length) {
+    return Array.isArray(parent)
+      ? (parent.map((item, index) => (index === segment ? unsetConfigValue(item, rest) : item)) as T)
+      : ({ ...parent, [segment]: unsetConfigValue(parent[segment], rest) } as T);
+  }
+
+  if (Array.isArray(parent)) {
+    return parent.filter((_, index) => index !== segment) as T;
+  }
+
+  const { [segment]: _removed, ...remaining } = parent;
+  return remaining as T;
+}
+
+/**
+ * Convert a value given on the command line to the type the schema expects.
+ * Strings stay as-is; numbers and booleans are parsed; objects and arrays are read as JSON.
+ */
+export function coerceConfigValue(raw: string, schema: JsonSchema, path: string): unknown {
+  const types = schema.type ? (Array.isArray(schema.type) ? schema.type : [schema.type]) : ['string'];
+
+  if (types.includes('string')) {
+    // Settings such as autoIncrement take either a boolean or a name
+    if (types.includes('boolean') && (raw === 'true' || raw === 'false')) {
+      return raw === 'true';
+    }
+    return raw;
+  }
+
+  if (types.includes('integer') || types.includes('number')) {
+    const value = Number(raw);
+    if (raw.trim() === '' || Number.isNaN(value)) {
+      throw new CommandError('CONFIG_INVALID_VALUE', `${path} must be a number (got "${raw}")`);
+    }
+    return value;
+  }
+
+  if (types.includes('boolean')) {
+    if (raw !== 'true' && raw !== 'false') {
+      throw new CommandError('CONFIG_INVALID_VALUE', `${path} must be true or false (got "${raw}")`);
+    }
+    return raw === 'true';
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new CommandError(
+      'CONFIG_INVALID_VALUE',
+      `${path} must be ${types.includes('array') ? 'an array' : 'an object'} given as JSON (got ${raw})`
+    );
+  }
+}
+
+/**
+ * Flatten a config into [path, value] pairs for its leaf values
+ */
+export function flattenConfig(value: unknown, prefix: ConfigPath = []): Array<[string, unknown]> {
+  if (typeof value !== 'object' || value === null) {
+    return [[formatConfigPath(prefix), value]];
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [index, item] as const)
+    : Object.entries(value);
+
+  if (!entries.length) {
+    return [[formatConfigPath(prefix), value]];
+  }
+
+  return entries.flatMap(([key, child]) => flattenConfig(child, [...prefix, key]));
+}
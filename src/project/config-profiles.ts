@@ -0,0 +1,119 @@
+/**
+ * Build and submit profile resolution
+ * Profiles can inherit from another profile of the same kind via "extends"
+ */
+
+import { CommandError } from '../utils/errors.js';
+import { closestMatch } from '../utils/suggestions.js';
+import type { BuildProfile, ObsydianConfig, SubmitProfile } from './config.js';
+
+export type ProfileKind = 'build' | 'submit';
+
+type ProfileMap<T> = { [profile: string]: T } | undefined;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge two values. Objects merge recursively; arrays and scalars from the override win.
+ */
+export function deepMerge<T>(base: T, override: Partial<T>): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    merged[key] = key in merged ? deepMerge<unknown>(merged[key], value as Partial<unknown>) : value;
+  }
+  return merged as T;
+}
+
+/**
+ * List the profile names of a kind
+ */
+export function listProfiles(config: ObsydianConfig, kind: ProfileKind): string[] {
+  return Object.keys(config[kind] ?? {});
+}
+
+function unknownProfileError(kind: ProfileKind, name: string, available: string[], from?: string): CommandError {
+  const suggestion = closestMatch(name, available);
+  const subject = from ? `${kind}.${from} extends unknown profile "${name}"` : `Unknown ${kind} profile "${name}"`;
+  let message = subject + (suggestion ? ` (did you mean "${suggestion}"?)` : '');
+  message += available.length
+    ? `\nAvailable ${kind} profiles: ${available.join(', ')}`
+    : `\nNo ${kind} profiles are defined in obsydian.json`;
+  return new CommandError('PROFILE_NOT_FOUND', message);
+}
+
+function resolveProfile<T extends { extends?: string }>(
+  config: ObsydianConfig,
+  kind: ProfileKind,
+  name: string
+): Omit<T, 'extends'> {
+  const profiles = config[kind] as ProfileMap<T>;
+  const available = listProfiles(config, kind);
+  if (!profiles?.[name]) {
+    throw unknownProfileError(kind, name, available);
+  }
+
+  // Walk up the chain first so the root profile is merged first
+  const chain: string[] = [];
+  let current: string | undefined = name;
+  while (current !== undefined) {
+    if (chain.includes(current)) {
+      const cycle = [...chain.slice(chain.indexOf(current)), current].map((p) => `${kind}.${p}`);
+      throw new CommandError('PROFILE_CYCLE', `Profile inheritance cycle: ${cycle.join(' → ')}`);
+    }
+
+    const profile: T | undefined = profiles[current];
+    if (!profile) {
+      throw unknownProfileError(kind, current, available, chain[chain.length - 1]);
+    }
+
+    chain.push(current);
+    current = profile.extends;
+  }
+
+  let resolved = {} as T;
+  for (const profileName of chain.reverse()) {
+    resolved = deepMerge(resolved, profiles[profileName]);
+  }
+
+  const { extends: _extends, ...rest } = resolved;
+  return rest;
+}
+
+/**
+ * Profiles that can't be resolved because they extend an unknown profile or are part of a cycle
+ */
+export function findProfileErrors(config: ObsydianConfig): CommandError[] {
+  const errors: CommandError[] = [];
+  for (const kind of ['build', 'submit'] as const) {
+    for (const name of listProfiles(config, kind)) {
+      try {
+        resolveProfile(config, kind, name);
+      } catch (error) {
+        if (!(error instanceof CommandError)) throw error;
+        errors.push(error);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Resolve a build profile, merging in every profile it extends
+ */
+export function resolveBuildProfile(config: ObsydianConfig, name: string): Omit<BuildProfile, 'extends'> {
+  return resolveProfile<BuildProfile>(config, 'build', name);
+}
+
+/**
+ * Resolve a submit profile, merging in every profile it extends
+ */
+export function resolveSubmitProfile(config: ObsydianConfig, name: string): Omit<SubmitProfile, 'extends'> {
+  return resolveProfile<SubmitProfile>(config, 'submit', name);
+}
@@ -0,0 +1,249 @@
+/**
+ * obsydian.json validation
+ * Checks a parsed config against the published JSON Schema (schema/obsydian.schema.json)
+ */
+
+import fs from 'fs-extra';
+import { fileURLToPath } from 'url';
+import { CommandError } from '../utils/errors.js';
+import { closestMatch } from '../utils/suggestions.js';
+
+/**
+ * The subset of JSON Schema (draft-07) used by obsydian.schema.json
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  pattern?: string;
+  definitions?: Record<string, JsonSchema>;
+}
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+export class ConfigValidationError extends CommandError {
+  public readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[], source = 'obsydian.json') {
+    super(
+      'CONFIG_INVALID',
+      `Invalid ${source}:\n` + issues.map((issue) => `  • ${issue.message}`).join('\n')
+    );
+    this.issues = issues;
+    this.name = 'ConfigValidationError';
+  }
+}
+
+// Resolves to <package>/schema from both src/project and dist/project
+const SCHEMA_URL = new URL('../../schema/obsydian.schema.json', import.meta.url);
+
+let cachedSchema: JsonSchema | undefined;
+
+/**
+ * Load the obsydian.json JSON Schema
+ */
+export function getConfigSchema(): JsonSchema {
+  if (!cachedSchema) {
+    cachedSchema = fs.readJsonSync(fileURLToPath(SCHEMA_URL)) as JsonSchema;
+  }
+  return cachedSchema;
+}
+
+/**
+ * Validate a parsed obsydian.json against the schema.
+ * Errors make the config unusable; warnings (e.g. unknown keys) are informational.
+ */
+export function validateConfig(value: unknown): ConfigValidationResult {
+  const result: ConfigValidationResult = { errors: [], warnings: [] };
+  const root = getConfigSchema();
+  validateNode(root, root, value, '', result);
+  return result;
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function describePath(path: string): string {
+  return path || 'config';
+}
+
+function formatValue(value: unknown): string {
+  const json = JSON.stringify(value);
+  if (json === undefined) return String(value);
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function resolveRef(root: JsonSchema, schema: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+
+  const match = schema.$ref.match(/^#\/definitions\/(.+)$/);
+  const resolved = match ? root.definitions?.[match[1]] : undefined;
+  if (!resolved) {
+    throw new Error(`Unsupported schema reference: ${schema.$ref}`);
+  }
+  return resolveRef(root, resolved);
+}
+
+function validateNode(
+  root: JsonSchema,
+  schemaOrRef: JsonSchema,
+  value: unknown,
+  path: string,
+  result: ConfigValidationResult
+): void {
+  const schema = resolveRef(root, schemaOrRef);
+  const where = describePath(path);
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    result.errors.push({
+      path,
+      message: `${where} must be ${schema.enum.join('|')} (got ${formatValue(value)})`,
+    });
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      const article = /^[aeiou]/.test(types[0]) ? 'an' : 'a';
+      result.errors.push({
+        path,
+        message: `${where} must be ${article} ${types.join(' or ')} (got ${formatValue(value)})`,
+      });
+      return;
+    }
+  }
+
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    result.errors.push({
+      path,
+      message: `${where} must match /${schema.pattern}/ (got ${formatValue(value)})`,
+    });
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    result.errors.push({
+      path,
+      message: `${where} must be >= ${schema.minimum} (got ${value})`,
+    });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      result.errors.push({
+        path,
+        message: `${where} must contain at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        validateNode(root, schema.items!, item, `${path}[${index}]`, result);
+      });
+    }
+    return;
+  }
+
+  if (typeOf(value) !== 'object') {
+    return;
+  }
+
+  const object = value as Record<string, unknown>;
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (object[key] === undefined) {
+      result.errors.push({ path: joinPath(path, key), message: `${joinPath(path, key)} is required` });
+    }
+  }
+
+  for (const [key, child] of Object.entries(object)) {
+    const childPath = joinPath(path, key);
+
+    if (properties[key]) {
+      if (child !== undefined) {
+        validateNode(root, properties[key], child, childPath, result);
+      }
+      continue;
+    }
+
+    if (typeof schema.additionalProperties === 'object') {
+      validateNode(root, schema.additionalProperties, child, childPath, result);
+      continue;
+    }
+
+    if (schema.additionalProperties === false) {
+      const suggestion = closestMatch(key, Object.keys(properties));
+      result.warnings.push({
+        path: childPath,
+        message: `Unknown key ${childPath}` + (suggestion ? ` (did you mean ${joinPath(path, suggestion)}?)` : ''),
+      });
+    }
+  }
+}
+
+/**
+ * Find the schema for a path inside obsydian.json (e.g. ['build', 'production', 'configuration']).
+ * Throws for keys the schema does not define.
+ */
+export function getSchemaAtPath(segments: Array<string | number>): JsonSchema {
+  const root = getConfigSchema();
+  let schema = resolveRef(root, root);
+  let path = '';
+
+  for (const segment of segments) {
+    const segmentPath = typeof segment === 'number' ? `${path}[${segment}]` : joinPath(path, segment);
+
+    let next: JsonSchema | undefined;
+    if (typeof segment === 'number') {
+      next = schema.items;
+    } else if (schema.properties?.[segment]) {
+      next = schema.properties[segment];
+    } else if (typeof schema.additionalProperties === 'object') {
+      next = schema.additionalProperties;
+    }
+
+    if (!next) {
+      const suggestion = typeof segment === 'string'
+        ? closestMatch(segment, Object.keys(schema.properties ?? {}))
+        : undefined;
+      throw new CommandError(
+        'CONFIG_UNKNOWN_KEY',
+        `Unknown key ${segmentPath}` + (suggestion ? ` (did you mean ${joinPath(path, suggestion)}?)` : '')
+      );
+    }
+
+    schema = resolveRef(root, next);
+    path = segmentPath;
+  }
+
+  return schema;
+}
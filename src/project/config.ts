@@ -4,12 +4,36 @@
 
 import fs from 'fs-extra';
 import path from 'path';
+import { pathToFileURL } from 'url';
+import Log from '../utils/log.js';
+import { CommandError } from '../utils/errors.js';
+import { closestMatch } from '../utils/suggestions.js';
+import { ConfigValidationError, validateConfig } from './config-validation.js';
+import { interpolateEnv, loadEnvFiles } from './config-env.js';
 
 export interface ObsydianConfig {
+  $schema?: string;
+  // Shape version of this file, upgraded by `obsydian config migrate`
+  schemaVersion?: number;
   name: string;
   version: string;
+  // CFBundleVersion, defaults to 1
+  buildNumber?: number;
   bundleId: string;
   platforms: Platform[];
+
+  // Glob patterns for the app's source files, relative to the project (default: src/**)
+  sources?: string[];
+  // Glob patterns for files under sources to leave out of the Xcode project
+  exclude?: string[];
+
+  // Files and folders copied into the app bundle
+  resources?: Resource[];
+
+  // Third-party code linked into the app
+  dependencies?: {
+    swiftPackages?: SwiftPackage[];
+  };
   
   // Framework configuration
   framework?: {
@@ -21,7 +45,13 @@ export interface ObsydianConfig {
   // iOS/macOS specific
   apple?: {
     teamId?: string;
-    minimumOsVersion?: string;
+    ios?: IosSettings;
+    macos?: MacosSettings;
+  };
+  
+  // App variants (dev, staging, ...), keyed by variant name
+  variants?: {
+    [variant: string]: Variant;
   };
   
   // Build profiles
@@ -37,32 +67,287 @@ export interface ObsydianConfig {
 
 export type Platform = 'macos' | 'ios' | 'android' | 'windows' | 'linux';
 
+export const PLATFORMS: Platform[] = ['macos', 'ios', 'android', 'windows', 'linux'];
+
+/**
+ * Check a platform given on the command line
+ */
+export function parsePlatform(value: string): Platform {
+  const platform = value.trim().toLowerCase();
+  if (PLATFORMS.includes(platform as Platform)) {
+    return platform as Platform;
+  }
+
+  const suggestion = closestMatch(platform, PLATFORMS);
+  throw new CommandError(
+    'INVALID_PLATFORM',
+    `Unknown platform "${value}"` + (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+      + `\nSupported platforms: ${PLATFORMS.join(', ')}`
+  );
+}
+
+/**
+ * Check a comma-separated platform list given on the command line, e.g. "macos,ios"
+ */
+export function parsePlatforms(value: string): Platform[] {
+  const platforms = value.split(',').filter((item) => item.trim()).map(parsePlatform);
+  if (!platforms.length) {
+    throw new CommandError('INVALID_PLATFORM', 'Pass at least one platform, e.g. --platforms macos,ios');
+  }
+  return [...new Set(platforms)];
+}
+
+export type Orientation = 'portrait' | 'portraitUpsideDown' | 'landscapeLeft' | 'landscapeRight';
+
+export interface IosSettings {
+  // IPHONEOS_DEPLOYMENT_TARGET
+  deploymentTarget?: string;
+  deviceFamily?: Array<'iphone' | 'ipad'>;
+  supportedOrientations?: Orientation[];
+  supportedOrientationsIpad?: Orientation[];
+}
+
+export interface MacosSettings {
+  // MACOSX_DEPLOYMENT_TARGET
+  deploymentTarget?: string;
+  // LSApplicationCategoryType, e.g. public.app-category.utilities
+  category?: string;
+  sandbox?: SandboxSettings;
+}
+
+export interface SandboxSettings {
+  enabled?: boolean;
+  networkClient?: boolean;
+  networkServer?: boolean;
+  userSelectedFiles?: 'none' | 'read-only' | 'read-write';
+}
+
+export const DEFAULT_SOURCES = ['src/**'];
+
+export interface Resource {
+  // Glob pattern for files or folders, relative to the project, e.g. "assets/fonts/*.ttf" or "assets/*.lproj"
+  path: string;
+  // Subfolder of the bundle's resources to copy into, e.g. "Fonts" (default: the top level)
+  destination?: string;
+}
+
+/**
+ * A Swift package from a git repository. Give one version requirement: from, exact, branch or revision.
+ */
+export interface SwiftPackage {
+  // Repository URL, e.g. https://github.com/sparkle-project/Sparkle
+  url: string;
+  // Any version from this one up to the next major version
+  from?: string;
+  exact?: string;
+  branch?: string;
+  revision?: string;
+  // Products of the package the app links, e.g. ["Sparkle"]
+  products: string[];
+  // Platforms whose targets link the products (default: all)
+  platforms?: Platform[];
+}
+
+export const DEFAULT_DEPLOYMENT_TARGETS = {
+  ios: '17.0',
+  macos: '14.0',
+};
+
+export interface Variant {
+  // Appended to bundleId, e.g. ".staging"
+  bundleIdSuffix?: string;
+  // CFBundleDisplayName, the name shown under the app icon
+  displayName?: string;
+  // Preprocessor definitions, e.g. "API_ENV=staging"
+  defines?: string[];
+  iconBadge?: IconBadge;
+}
+
+export interface IconBadge {
+  text: string;
+  // Hex color, e.g. "#FF9500"
+  color?: string;
+}
+
 export interface BuildProfile {
-  platform: Platform;
+  // Name of another build profile to inherit from
+  extends?: string;
+  platform?: Platform;
+  variant?: string;
   configuration?: 'Debug' | 'Release';
   scheme?: string;
+  // xcodebuild -destination (defaults to the platform's generic destination)
+  destination?: string;
+  // Extra build settings passed to xcodebuild as KEY=VALUE
+  buildSettings?: Record<string, string>;
+  autoIncrement?: AutoIncrement;
 }
 
 export interface SubmitProfile {
-  platform: Platform;
-  // App Store Connect
-  ascApiKeyPath?: string;
-  ascApiKeyId?: string;
-  ascApiKeyIssuerId?: string;
+  // Name of another submit profile to inherit from
+  extends?: string;
+  platform?: Platform;
+  variant?: string;
+  autoIncrement?: AutoIncrement;
+  appStoreConnect?: AppStoreConnectKey;
+}
+
+/**
+ * Bump the build number before archiving, taking the next number from this source.
+ * true is the same as "local".
+ */
+export type AutoIncrement = boolean | 'local' | 'git-commits' | 'app-store-connect';
+
+export interface AppStoreConnectKey {
+  keyPath?: string;
+  keyId?: string;
+  issuerId?: string;
+}
+
+export const CONFIG_FILENAME = 'obsydian.json';
+const DYNAMIC_CONFIG_FILENAMES = ['obsydian.config.js', 'obsydian.config.mjs'];
+
+export interface ReadConfigOptions {
+  // Selected build/submit profile; loads .env, .env.<profile> and .env.local
+  profile?: string;
+  // Target platform, when already known (passed to dynamic configs)
+  platform?: Platform;
+}
+
+/**
+ * Context passed to an obsydian.config.js function
+ */
+export interface DynamicConfigContext {
+  projectDir: string;
+  profile?: string;
+  platform?: Platform;
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Shape of an obsydian.config.js default export
+ */
+export type DynamicConfigExport =
+  | ObsydianConfig
+  | ((config: Partial<ObsydianConfig>, context: DynamicConfigContext) => ObsydianConfig | Promise<ObsydianConfig>);
+
+/**
+ * A single step in upgrading obsydian.json from one schema version to the next
+ */
+export interface ConfigMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (config: Record<string, any>) => Record<string, any>;
 }
 
-const CONFIG_FILENAME = 'obsydian.json';
+/**
+ * Migration registry, in order. Configs without schemaVersion are version 1.
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Move submit profile ascApiKey* fields into appStoreConnect',
+    migrate: (config) => {
+      const submit: Record<string, any> = {};
+      for (const [name, profile] of Object.entries<Record<string, any>>(config.submit ?? {})) {
+        const { ascApiKeyPath, ascApiKeyId, ascApiKeyIssuerId, ...rest } = profile;
+        const hasKey = [ascApiKeyPath, ascApiKeyId, ascApiKeyIssuerId].some((value) => value !== undefined);
+        submit[name] = hasKey
+          ? {
+              ...rest,
+              appStoreConnect: {
+                ...rest.appStoreConnect,
+                keyPath: ascApiKeyPath,
+                keyId: ascApiKeyId,
+                issuerId: ascApiKeyIssuerId,
+              },
+            }
+          : rest;
+      }
+      return config.submit ? { ...config, submit } : config;
+    },
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'Replace apple.minimumOsVersion with apple.ios / apple.macos deploymentTarget',
+    migrate: (config) => {
+      if (!config.apple || config.apple.minimumOsVersion === undefined) return config;
+
+      // The old value was used as the deployment target of every Apple platform
+      const { minimumOsVersion, ...apple } = config.apple;
+      for (const platform of ['ios', 'macos'] as const) {
+        if (config.platforms?.includes(platform)) {
+          apple[platform] = { deploymentTarget: minimumOsVersion, ...apple[platform] };
+        }
+      }
+      return { ...config, apple };
+    },
+  },
+  {
+    from: 3,
+    to: 4,
+    description: 'Keep compiling sources from the whole project directory, now that sources defaults to src/**',
+    migrate: (config) => {
+      return config.sources === undefined ? { ...config, sources: ['**'] } : config;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = CONFIG_MIGRATIONS[CONFIG_MIGRATIONS.length - 1].to;
+
+/**
+ * Upgrade a parsed config to the current schema version, one step at a time
+ */
+export function migrateConfig(value: unknown): { config: ObsydianConfig; applied: ConfigMigration[] } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    // Leave it to validation to report
+    return { config: value as ObsydianConfig, applied: [] };
+  }
+
+  let config = value as Record<string, any>;
+  const startVersion = typeof config.schemaVersion === 'number' ? config.schemaVersion : 1;
+
+  if (startVersion > CURRENT_SCHEMA_VERSION) {
+    throw new CommandError(
+      'CONFIG_TOO_NEW',
+      `${CONFIG_FILENAME} uses schema version ${startVersion}, but this CLI only supports up to ${CURRENT_SCHEMA_VERSION}. Update @obsydian/cli.`
+    );
+  }
+
+  const applied: ConfigMigration[] = [];
+  for (const migration of CONFIG_MIGRATIONS) {
+    if (migration.from < startVersion) continue;
+    config = migration.migrate(config);
+    applied.push(migration);
+  }
+
+  if (applied.length) {
+    // Keep schemaVersion at the top of the file
+    const { $schema, schemaVersion: _previous, ...rest } = config;
+    config = {
+      ...($schema !== undefined ? { $schema } : {}),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      ...rest,
+    };
+  }
+
+  return { config: config as ObsydianConfig, applied };
+}
 
 /**
- * Find the project root by looking for obsydian.json
+ * Find the project root by looking for obsydian.json or obsydian.config.js
  */
 export async function findProjectRoot(startDir: string = process.cwd()): Promise<string | null> {
   let currentDir = startDir;
   
   while (currentDir !== path.dirname(currentDir)) {
-    const configPath = path.join(currentDir, CONFIG_FILENAME);
-    if (await fs.pathExists(configPath)) {
-      return currentDir;
+    for (const filename of [CONFIG_FILENAME, ...DYNAMIC_CONFIG_FILENAMES]) {
+      if (await fs.pathExists(path.join(currentDir, filename))) {
+        return currentDir;
+      }
     }
     currentDir = path.dirname(currentDir);
   }
@@ -71,9 +356,23 @@ export async function findProjectRoot(startDir: string = process.cwd()): Promise
 }
 
 /**
- * Read the obsydian.json config
+ * Find the project's obsydian.config.js / .mjs, if it has one.
+ * Dynamic configs are read-only for the CLI.
+ */
+export async function findDynamicConfigPath(projectDir: string): Promise<string | null> {
+  for (const filename of DYNAMIC_CONFIG_FILENAMES) {
+    const configPath = path.join(projectDir, filename);
+    if (await fs.pathExists(configPath)) {
+      return configPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read and parse obsydian.json without any processing
  */
-export async function readConfig(projectDir: string): Promise<ObsydianConfig> {
+export async function readConfigFile(projectDir: string): Promise<unknown> {
   const configPath = path.join(projectDir, CONFIG_FILENAME);
   
   if (!await fs.pathExists(configPath)) {
@@ -81,15 +380,158 @@ export async function readConfig(projectDir: string): Promise<ObsydianConfig> {
   }
   
   const content = await fs.readFile(configPath, 'utf-8');
-  return JSON.parse(content) as ObsydianConfig;
+  try {
+    return JSON.parse(content);
+  } catch (error: any) {
+    throw new ConfigValidationError([{ path: '', message: error.message }], CONFIG_FILENAME);
+  }
+}
+
+let warnedAboutPendingMigration = false;
+
+/**
+ * Read obsydian.json as written (upgraded to the current schema version in memory),
+ * without resolving ${env:NAME} references.
+ * Use this when the config will be modified and written back.
+ */
+export async function readRawConfig(projectDir: string): Promise<ObsydianConfig> {
+  const { config, applied } = migrateConfig(await readConfigFile(projectDir));
+
+  if (applied.length && !warnedAboutPendingMigration) {
+    warnedAboutPendingMigration = true;
+    Log.warn(`${CONFIG_FILENAME} uses an older schema. Run "obsydian config migrate" to upgrade it.`);
+  }
+
+  return config;
+}
+
+/**
+ * The config as the project defines it: obsydian.json as written,
+ * or the evaluated obsydian.config.js when there is one
+ */
+export async function readConfigAsWritten(projectDir: string): Promise<ObsydianConfig> {
+  return await findDynamicConfigPath(projectDir)
+    ? readConfig(projectDir)
+    : readRawConfig(projectDir);
+}
+
+/**
+ * Read the project config, resolve ${env:NAME} references and validate it.
+ * obsydian.config.js / .mjs, when present, is evaluated on top of obsydian.json.
+ */
+export async function readConfig(projectDir: string, options: ReadConfigOptions = {}): Promise<ObsydianConfig> {
+  // Real environment variables take precedence over .env files
+  const envFileValues = options.profile ? await loadEnvFiles(projectDir, options.profile) : {};
+  const env = { ...envFileValues, ...process.env };
+
+  const dynamicConfigPath = await findDynamicConfigPath(projectDir);
+  if (!dynamicConfigPath) {
+    const raw = await readRawConfig(projectDir);
+    return assertValidConfig(interpolateEnv(raw, env, options));
+  }
+
+  const staticConfig = await fs.pathExists(path.join(projectDir, CONFIG_FILENAME))
+    ? await readRawConfig(projectDir)
+    : {};
+  const evaluated = await evaluateDynamicConfig(dynamicConfigPath, staticConfig, {
+    projectDir,
+    profile: options.profile,
+    platform: options.platform,
+    env,
+  });
+
+  return assertValidConfig(interpolateEnv(asCurrentSchema(evaluated), env, options), path.basename(dynamicConfigPath));
+}
+
+/**
+ * Dynamic configs are written against the current schema: migrations only apply to obsydian.json
+ * (which reaches the function already migrated), so a missing schemaVersion does not mean version 1.
+ */
+function asCurrentSchema(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    // Leave it to validation to report
+    return value;
+  }
+  return { ...value, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+async function evaluateDynamicConfig(
+  configPath: string,
+  staticConfig: Partial<ObsydianConfig>,
+  context: DynamicConfigContext
+): Promise<unknown> {
+  const filename = path.basename(configPath);
+
+  let exported: DynamicConfigExport;
+  try {
+    const mod = await import(pathToFileURL(configPath).href);
+    exported = mod.default ?? mod;
+  } catch (error: any) {
+    throw new CommandError('CONFIG_LOAD_FAILED', `Failed to load ${filename}: ${error.message}`);
+  }
+
+  if (typeof exported !== 'function') {
+    return exported;
+  }
+
+  try {
+    return await exported(staticConfig, context);
+  } catch (error: any) {
+    throw new CommandError('CONFIG_LOAD_FAILED', `${filename} threw an error: ${error.message}`);
+  }
 }
 
 /**
- * Write the obsydian.json config
+ * Validate a parsed config, logging warnings and throwing on errors
  */
-export async function writeConfig(projectDir: string, config: ObsydianConfig): Promise<void> {
+export function assertValidConfig(value: unknown, source = CONFIG_FILENAME): ObsydianConfig {
+  const { errors, warnings } = validateConfig(value);
+
+  for (const warning of warnings) {
+    Log.warn(`${source}: ${warning.message}`);
+  }
+
+  if (errors.length) {
+    throw new ConfigValidationError(errors, source);
+  }
+
+  return value as ObsydianConfig;
+}
+
+/**
+ * Write the obsydian.json config.
+ * Refuses to when the project uses a dynamic config, which the CLI must not clobber,
+ * and when obsydian.json uses an older schema: only "obsydian config migrate" (migrate: true) upgrades it.
+ */
+export async function writeConfig(
+  projectDir: string,
+  config: ObsydianConfig,
+  options: { migrate?: boolean } = {}
+): Promise<void> {
+  const dynamicConfigPath = await findDynamicConfigPath(projectDir);
+  if (dynamicConfigPath) {
+    throw new CommandError(
+      'CONFIG_READ_ONLY',
+      `${path.basename(dynamicConfigPath)} is a dynamic config and cannot be updated by the CLI. Edit it by hand instead.`
+    );
+  }
+
   const configPath = path.join(projectDir, CONFIG_FILENAME);
-  await fs.writeFile(configPath, JSON.stringify(config, null, 2) + '\n');
+  if (!options.migrate && await fs.pathExists(configPath) && migrateConfig(await readConfigFile(projectDir)).applied.length) {
+    throw new CommandError(
+      'CONFIG_MIGRATION_REQUIRED',
+      `${CONFIG_FILENAME} uses an older schema. Run "obsydian config migrate" before changing it.`
+    );
+  }
+
+  await fs.writeFile(configPath, serializeConfig(config));
+}
+
+/**
+ * obsydian.json contents for a config
+ */
+export function serializeConfig(config: ObsydianConfig): string {
+  return JSON.stringify(config, null, 2) + '\n';
 }
 
 /**
@@ -102,13 +544,27 @@ export function createDefaultConfig(
   teamId?: string
 ): ObsydianConfig {
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     name,
     version: '1.0.0',
+    buildNumber: 1,
     bundleId,
     platforms,
     apple: {
       teamId,
-      minimumOsVersion: '14.0',
+      ...(platforms.includes('ios') ? {
+        ios: {
+          deploymentTarget: DEFAULT_DEPLOYMENT_TARGETS.ios,
+          deviceFamily: ['iphone', 'ipad'],
+        },
+      } : {}),
+      ...(platforms.includes('macos') ? {
+        macos: {
+          deploymentTarget: DEFAULT_DEPLOYMENT_TARGETS.macos,
+          category: 'public.app-category.utilities',
+          sandbox: { enabled: true },
+        },
+      } : {}),
     },
     build: {
       development: {
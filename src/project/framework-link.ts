@@ -0,0 +1,89 @@
+/**
+ * Local framework checkouts (framework.source: local)
+ * The project's Frameworks/Obsydian.xcframework becomes a symlink to the local build,
+ * so the generated Xcode project does not change and rebuilds of the framework are picked up directly
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { CommandError } from '../utils/errors.js';
+import { validateFramework } from '../utils/framework-downloader.js';
+import { CONFIG_FILENAME, type ObsydianConfig } from './config.js';
+
+/**
+ * Where the generated Xcode project expects the framework
+ */
+export function projectFrameworkPath(projectDir: string): string {
+  return path.join(projectDir, 'Frameworks', 'Obsydian.xcframework');
+}
+
+/**
+ * Point the project at a local Obsydian.xcframework.
+ * Returns the framework path relative to the project, for framework.localPath.
+ */
+export async function linkLocalFramework(projectDir: string, frameworkPath: string): Promise<string> {
+  const resolved = path.resolve(frameworkPath);
+  if (!await fs.pathExists(resolved)) {
+    throw new CommandError('FRAMEWORK_NOT_FOUND', `Framework not found: ${resolved}`);
+  }
+
+  try {
+    await validateFramework(resolved);
+  } catch (error: any) {
+    throw new CommandError('FRAMEWORK_INVALID', `${resolved} is not a usable Obsydian.xcframework: ${error.message}`);
+  }
+
+  const linkPath = projectFrameworkPath(projectDir);
+  if (path.resolve(linkPath) === resolved) {
+    throw new CommandError('FRAMEWORK_INVALID', 'Link a framework outside the project, not the project\'s own copy');
+  }
+
+  await fs.ensureDir(path.dirname(linkPath));
+  await fs.remove(linkPath);
+  await fs.symlink(path.relative(path.dirname(linkPath), resolved), linkPath, 'dir');
+
+  return path.relative(projectDir, resolved);
+}
+
+/**
+ * Whether the project's framework is a link to a local checkout
+ */
+export async function isFrameworkLinked(projectDir: string): Promise<boolean> {
+  try {
+    return (await fs.lstat(projectFrameworkPath(projectDir))).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-create the link to the framework.localPath checkout when it is missing or points elsewhere,
+ * e.g. after a fresh clone, since Frameworks/ is not committed
+ */
+export async function restoreFrameworkLink(projectDir: string, config: ObsydianConfig): Promise<void> {
+  if (config.framework?.source !== 'local' || !config.framework.localPath) return;
+
+  const target = path.resolve(projectDir, config.framework.localPath);
+  const linkPath = projectFrameworkPath(projectDir);
+  if (await isFrameworkLinked(projectDir) && path.resolve(path.dirname(linkPath), await fs.readlink(linkPath)) === target) {
+    return;
+  }
+
+  if (!await fs.pathExists(target)) {
+    throw new CommandError(
+      'FRAMEWORK_NOT_FOUND',
+      `framework.localPath in ${CONFIG_FILENAME} is ${config.framework.localPath}, but ${target} does not exist.`
+        + ' Build the framework there, or run "obsydian framework unlink".'
+    );
+  }
+  await linkLocalFramework(projectDir, target);
+}
+
+/**
+ * Remove the link to a local framework (the local checkout itself is left alone)
+ */
+export async function unlinkLocalFramework(projectDir: string): Promise<void> {
+  if (await isFrameworkLinked(projectDir)) {
+    await fs.unlink(projectFrameworkPath(projectDir));
+  }
+}
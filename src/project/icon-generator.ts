@@ -6,6 +6,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { exec } from '../utils/exec.js';
+import type { IconBadge } from './config.js';
 
 /**
  * Generate a simple placeholder icon using macOS built-in tools
@@ -201,3 +202,65 @@ img.save('${outputPath}')
     await fs.writeFile(outputPath, minimalPng);
   }
 }
+
+/**
+ * Create a badged copy of the app icon for a variant
+ * Copies Assets.xcassets/AppIcon.appiconset (the placeholder or the user's own icon)
+ * and draws a banner with the badge text across the bottom of every image.
+ * Returns false when the badge could not be drawn; the copy is then left unbadged.
+ */
+export async function generateBadgedIcon(
+  projectDir: string,
+  iconSetName: string,
+  badge: IconBadge
+): Promise<boolean> {
+  const assetsDir = path.join(projectDir, 'Assets.xcassets');
+  const sourceDir = path.join(assetsDir, 'AppIcon.appiconset');
+  const targetDir = path.join(assetsDir, `${iconSetName}.appiconset`);
+
+  if (!await fs.pathExists(sourceDir)) {
+    throw new Error(`App icon not found: ${sourceDir}`);
+  }
+
+  await fs.remove(targetDir);
+  await fs.copy(sourceDir, targetDir);
+
+  const images = (await fs.readdir(targetDir)).filter((file) => file.toLowerCase().endsWith('.png'));
+  if (!images.length) {
+    return true;
+  }
+
+  // Values are passed as JSON so badge text can't break out of the script
+  const pythonScript = `import json, sys
+from PIL import Image, ImageDraw, ImageFont
+text = json.loads(${JSON.stringify(JSON.stringify(badge.text))})
+color = json.loads(${JSON.stringify(JSON.stringify(badge.color ?? '#FF9500'))})
+for path in sys.argv[1:]:
+    img = Image.open(path).convert('RGBA')
+    width, height = img.size
+    banner = max(1, int(height * 0.24))
+    draw = ImageDraw.Draw(img)
+    draw.rectangle([(0, height - banner), (width, height)], fill=color)
+    font_size = max(1, int(banner * 0.6))
+    try:
+        font = ImageFont.truetype('/System/Library/Fonts/Supplemental/Arial Bold.ttf', font_size)
+    except:
+        font = ImageFont.load_default()
+    bbox = draw.textbbox((0, 0), text, font=font)
+    x = (width - (bbox[2] - bbox[0])) // 2 - bbox[0]
+    y = height - banner + (banner - (bbox[3] - bbox[1])) // 2 - bbox[1]
+    draw.text((x, y), text, fill='white', font=font)
+    img.save(path)
+`;
+
+  const scriptPath = path.join(targetDir, 'badge_icon.py');
+  try {
+    await fs.writeFile(scriptPath, pythonScript);
+    const result = await exec('python3', [scriptPath, ...images], { cwd: targetDir, silent: true });
+    return result.exitCode === 0;
+  } catch {
+    return false;
+  } finally {
+    await fs.remove(scriptPath);
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Generating the Xcode project from obsydian.json and the source files on disk
+ * init and prebuild both go through here, so a new project and a regenerated one match
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import Log from '../utils/log.js';
+import { globToRegExp, matchesGlob } from '../utils/glob.js';
+import { DEFAULT_SOURCES, type ObsydianConfig, type Resource } from './config.js';
+import { projectFrameworkPath, restoreFrameworkLink } from './framework-link.js';
+import { managedEntitlementKeys } from './templates/entitlements.js';
+import { generateInfoPlist, managedInfoPlistKeys } from './templates/info-plist.js';
+import { getPlistValue, setPlistKeys, type PlistValue } from './templates/plist.js';
+import { generateVariantIcons } from './variants.js';
+import { isRecordInSync, readVersionRecords, syncInfoPlistVersion } from './version.js';
+import { findWorkspaceRoot, getSharedSourceDirs, readWorkspace } from './workspace.js';
+import {
+  findBridgingHeader,
+  generateXcodeProject,
+  infoPlistName,
+  isSourceFile,
+  summarizeExpectedXcodeProject,
+  summarizeXcodeProject,
+  type XcodeProjectOptions,
+  type XcodeResource,
+} from './xcode.js';
+
+// Directories that hold build output or dependencies, never app sources
+const IGNORED_DIRECTORIES = new Set(['build', 'DerivedData', 'Frameworks', 'node_modules', 'Pods']);
+// Bundles are directories too, but their contents are not sources
+const BUNDLE_EXTENSIONS = new Set(['.app', '.framework', '.xcarchive', '.xcassets', '.xcframework', '.xcodeproj', '.xcworkspace']);
+const FONT_EXTENSIONS = new Set(['.otf', '.ttc', '.ttf']);
+
+interface ProjectPath {
+  path: string;
+  isDirectory: boolean;
+}
+
+/**
+ * List the files and directories under the project directory that could be app sources or resources, relative to it.
+ * Bundles are listed but not searched.
+ */
+async function findProjectPaths(projectDir: string, prefix = ''): Promise<ProjectPath[]> {
+  const paths: ProjectPath[] = [];
+  const entries = await fs.readdir(path.join(projectDir, prefix), { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith('.')) continue;
+    const relativePath = path.join(prefix, entry.name);
+
+    if (entry.isDirectory()) {
+      if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+      paths.push({ path: relativePath, isDirectory: true });
+      if (!BUNDLE_EXTENSIONS.has(path.extname(entry.name))) {
+        paths.push(...await findProjectPaths(projectDir, relativePath));
+      }
+    } else {
+      paths.push({ path: relativePath, isDirectory: false });
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * The app's source files among the project's files: compiled sources and headers matched by
+ * the config's sources patterns and not by its exclude patterns
+ */
+export function selectSourceFiles(files: string[], config: ObsydianConfig): string[] {
+  const sources = config.sources ?? DEFAULT_SOURCES;
+  const exclude = config.exclude ?? [];
+  return files.filter((file) => isSourceFile(file) && matchesGlob(file, sources) && !matchesGlob(file, exclude));
+}
+
+/**
+ * The files and folders the config's resources patterns match.
+ * A pattern that matches a folder bundles the whole folder, except patterns ending in ** which pick out files.
+ * Files the project already builds in another way (sources, Info.plist, entitlements, the asset catalog) are left out with a warning.
+ */
+function selectResources(paths: ProjectPath[], resources: Resource[], managedPaths: Set<string>): XcodeResource[] {
+  const selected: XcodeResource[] = [];
+  const skipped = new Set<string>();
+
+  for (const resource of resources) {
+    const pattern = resource.path.replace(/^\.\//, '').replace(/\/$/, '');
+    const regExp = globToRegExp(pattern);
+    const matchesFolders = !/(^|\/)\*\*$/.test(pattern);
+    const folders: string[] = [];
+
+    for (const entry of paths) {
+      if (!regExp.test(entry.path)) continue;
+      // Files inside a bundled folder come with it
+      if (folders.some((folder) => entry.path.startsWith(`${folder}/`))) continue;
+      if (entry.isDirectory && !matchesFolders) continue;
+      if (managedPaths.has(entry.path)) {
+        skipped.add(entry.path);
+        continue;
+      }
+
+      if (entry.isDirectory) {
+        folders.push(entry.path);
+      }
+      if (!selected.some((existing) => existing.path === entry.path && existing.destination === resource.destination)) {
+        selected.push({ path: entry.path, folder: entry.isDirectory, destination: resource.destination });
+      }
+    }
+  }
+
+  for (const skippedPath of skipped) {
+    Log.warn(`${skippedPath} matches a resources pattern but is already part of the app, so it is not copied as a resource.`);
+  }
+
+  return selected;
+}
+
+/**
+ * Info.plist keys that register bundled fonts: UIAppFonts on iOS, ATSApplicationFontsPath on macOS.
+ * macOS loads fonts from a single folder, the one the first font is copied into.
+ */
+function fontInfoPlistKeys(resources: XcodeResource[], platform: 'macos' | 'ios'): Record<string, PlistValue | undefined> {
+  const fonts = resources.filter((resource) => !resource.folder && FONT_EXTENSIONS.has(path.extname(resource.path).toLowerCase()));
+  const bundlePath = (font: XcodeResource) => path.posix.join(font.destination ?? '', path.basename(font.path));
+
+  return platform === 'ios'
+    ? { UIAppFonts: fonts.length ? fonts.map(bundlePath) : undefined }
+    : { ATSApplicationFontsPath: fonts.length ? fonts[0].destination ?? '.' : undefined };
+}
+
+/**
+ * The app's Apple platforms, each with the Info.plist of its target
+ */
+function infoPlistPaths(config: ObsydianConfig): Array<{ platform: 'macos' | 'ios'; infoPlistPath: string }> {
+  return (['macos', 'ios'] as const)
+    .filter((platform) => config.platforms.includes(platform))
+    .map((platform) => ({ platform, infoPlistPath: infoPlistName(platform, config.platforms) }));
+}
+
+/**
+ * Keys prebuild keeps up to date in each plist: the apple.macos / apple.ios settings, the sandbox entitlements,
+ * and the bundled fonts. Info.plist files also get the version and build number.
+ */
+function managedPlistKeys(
+  config: ObsydianConfig,
+  options: XcodeProjectOptions
+): Array<{ file: string; keys: Record<string, PlistValue | undefined>; infoPlist: boolean }> {
+  const managed = infoPlistPaths(config).map(({ platform, infoPlistPath }) => ({
+    file: infoPlistPath,
+    infoPlist: true,
+    keys: {
+      ...managedInfoPlistKeys(platform, config.apple ?? {}),
+      // Projects without a resources section keep whatever font keys Info.plist already has
+      ...(config.resources ? fontInfoPlistKeys(options.resources ?? [], platform) : {}),
+    },
+  }));
+
+  if (options.entitlementsPath) {
+    managed.push({ file: options.entitlementsPath, infoPlist: false, keys: managedEntitlementKeys(config.apple?.macos) });
+  }
+  return managed;
+}
+
+/**
+ * Options for generateXcodeProject, from the config and what is on disk
+ */
+export async function xcodeProjectOptions(projectDir: string, config: ObsydianConfig): Promise<XcodeProjectOptions> {
+  const paths = await findProjectPaths(projectDir);
+  const files = paths.filter((entry) => !entry.isDirectory).map((entry) => entry.path);
+  const sourceFiles = selectSourceFiles(files, config);
+
+  // Apps inside a workspace can use its shared source directories
+  const workspaceDir = await findWorkspaceRoot(projectDir);
+  const workspace = workspaceDir ? await readWorkspace(workspaceDir) : undefined;
+
+  const entitlementsPath = config.platforms.includes('macos') ? 'entitlements.plist' : undefined;
+  const managedPaths = new Set([
+    ...sourceFiles,
+    'Info.plist',
+    ...infoPlistPaths(config).map(({ infoPlistPath }) => infoPlistPath),
+    ...(entitlementsPath ? [entitlementsPath] : []),
+    'Assets.xcassets',
+  ]);
+
+  return {
+    projectDir,
+    projectName: config.name,
+    bundleId: config.bundleId,
+    version: config.version,
+    buildNumber: config.buildNumber,
+    platforms: config.platforms,
+    sourceFiles,
+    bridgingHeaderPath: findBridgingHeader(sourceFiles),
+    entitlementsPath,
+    ios: config.apple?.ios,
+    macos: config.apple?.macos,
+    variants: config.variants,
+    teamId: config.apple?.teamId,
+    frameworkPath: projectFrameworkPath(projectDir),
+    sharedSourceDirs: workspaceDir && workspace ? getSharedSourceDirs(workspaceDir, workspace) : undefined,
+    resources: selectResources(paths, config.resources ?? [], managedPaths),
+    swiftPackages: config.dependencies?.swiftPackages,
+  };
+}
+
+/**
+ * Generate the Xcode project, and the Info.plist of each target that does not have one yet.
+ * Also updates the Info.plist and entitlements keys that follow from the config, leaving other keys as written.
+ * Returns the options the project was generated with.
+ */
+export async function prebuildProject(projectDir: string, config: ObsydianConfig): Promise<XcodeProjectOptions> {
+  await restoreFrameworkLink(projectDir, config);
+  const options = await xcodeProjectOptions(projectDir, config);
+  await generateXcodeProject(options);
+  await generateVariantIcons(projectDir, config);
+
+  for (const { platform, infoPlistPath } of infoPlistPaths(config)) {
+    const infoPlistFile = path.join(projectDir, infoPlistPath);
+    if (!await fs.pathExists(infoPlistFile)) {
+      await fs.writeFile(infoPlistFile, generateInfoPlist(config.name, config.bundleId, config.version, {
+        platforms: [platform],
+        buildNumber: config.buildNumber,
+        ios: config.apple?.ios,
+        macos: config.apple?.macos,
+      }));
+      // Projects that gained a second platform used to share one Info.plist between the targets
+      if (infoPlistPath !== 'Info.plist' && await fs.pathExists(path.join(projectDir, 'Info.plist'))) {
+        Log.warn(`Created ${infoPlistPath}. Info.plist is no longer used; move any keys you added there into ${infoPlistPath}.`);
+      }
+    }
+  }
+
+  for (const { file, keys, infoPlist } of managedPlistKeys(config, options)) {
+    const plistFile = path.join(projectDir, file);
+    if (!await fs.pathExists(plistFile)) continue;
+    const before = await fs.readFile(plistFile, 'utf-8');
+    const withKeys = setPlistKeys(before, keys);
+    const after = infoPlist ? syncInfoPlistVersion(withKeys, config) : withKeys;
+    if (after !== before) {
+      await fs.writeFile(plistFile, after);
+    }
+  }
+
+  return options;
+}
+
+function formatSetting(value: unknown): string {
+  return value === undefined ? 'not set' : JSON.stringify(value);
+}
+
+/**
+ * Differences between the plist keys prebuild manages and the Info.plist and entitlements files on disk
+ */
+async function findPlistDrift(projectDir: string, config: ObsydianConfig, options: XcodeProjectOptions): Promise<string[]> {
+  const drift: string[] = [];
+  const managed = managedPlistKeys(config, options);
+
+  for (const { file, keys } of managed) {
+    const plistFile = path.join(projectDir, file);
+    if (!await fs.pathExists(plistFile)) {
+      drift.push(`${file} does not exist`);
+      continue;
+    }
+
+    const contents = await fs.readFile(plistFile, 'utf-8');
+    for (const [key, value] of Object.entries(keys)) {
+      const existing = getPlistValue(contents, key);
+      if (JSON.stringify(existing) !== JSON.stringify(value)) {
+        drift.push(`${file}: ${key} is ${formatSetting(existing)}, expected ${formatSetting(value)}`);
+      }
+    }
+  }
+
+  const infoPlists = managed.filter((entry) => entry.infoPlist).map((entry) => entry.file);
+  for (const record of await readVersionRecords(projectDir, config)) {
+    if (infoPlists.includes(record.file) && !isRecordInSync(record, config)) {
+      drift.push(
+        `${record.file}: version ${record.versions.join(', ') || 'not set'} (build ${record.buildNumbers.join(', ') || 'not set'}),`
+          + ` expected ${config.version} (build ${config.buildNumber ?? 1})`
+      );
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Differences between the Xcode project on disk and the one prebuild would generate, one line each.
+ * Covers the Info.plist and entitlements keys prebuild keeps up to date as well.
+ */
+export async function findProjectDrift(projectDir: string, config: ObsydianConfig): Promise<string[]> {
+  const options = await xcodeProjectOptions(projectDir, config);
+  const expected = await summarizeExpectedXcodeProject(options);
+  const actual = await summarizeXcodeProject(projectDir, config.name);
+  if (!actual) {
+    return [`${config.name}.xcodeproj does not exist`];
+  }
+
+  const drift: string[] = [];
+
+  for (const name of expected.configurations.filter((name) => !actual.configurations.includes(name))) {
+    drift.push(`Build configuration ${name} is missing`);
+  }
+  for (const name of actual.configurations.filter((name) => !expected.configurations.includes(name))) {
+    drift.push(`Build configuration ${name} is not in obsydian.json`);
+  }
+
+  for (const [targetName, target] of Object.entries(expected.targets)) {
+    const existing = actual.targets[targetName];
+    if (!existing) {
+      drift.push(`Target ${targetName} is missing`);
+      continue;
+    }
+
+    for (const file of target.sources.filter((file) => !existing.sources.includes(file))) {
+      drift.push(`${targetName}: ${file} is not compiled`);
+    }
+    for (const file of existing.sources.filter((file) => !target.sources.includes(file))) {
+      drift.push(`${targetName}: compiles ${file}, which is no longer a source file`);
+    }
+
+    for (const resource of target.resources.filter((resource) => !existing.resources.includes(resource))) {
+      drift.push(`${targetName}: ${resource} is not bundled`);
+    }
+    for (const resource of existing.resources.filter((resource) => !target.resources.includes(resource))) {
+      drift.push(`${targetName}: bundles ${resource}, which is not in resources`);
+    }
+
+    for (const product of target.packageProducts.filter((product) => !existing.packageProducts.includes(product))) {
+      drift.push(`${targetName}: Swift package product ${product} is not linked`);
+    }
+    for (const product of existing.packageProducts.filter((product) => !target.packageProducts.includes(product))) {
+      drift.push(`${targetName}: links Swift package product ${product}, which is not in dependencies`);
+    }
+
+    for (const [configurationName, settings] of Object.entries(target.configurations)) {
+      const existingSettings = existing.configurations[configurationName];
+      if (!existingSettings) continue; // Reported with the project's configurations
+
+      const keys = [...new Set([...Object.keys(settings), ...Object.keys(existingSettings)])].sort();
+      for (const key of keys) {
+        if (JSON.stringify(settings[key]) !== JSON.stringify(existingSettings[key])) {
+          drift.push(
+            `${targetName} (${configurationName}): ${key} is ${formatSetting(existingSettings[key])}, expected ${formatSetting(settings[key])}`
+          );
+        }
+      }
+    }
+  }
+  for (const targetName of Object.keys(actual.targets).filter((name) => !expected.targets[name])) {
+    drift.push(`Target ${targetName} is not in obsydian.json's platforms`);
+  }
+
+  for (const [url, requirement] of Object.entries(expected.packages)) {
+    if (!actual.packages[url]) {
+      drift.push(`Swift package ${url} is missing`);
+    } else if (JSON.stringify(actual.packages[url]) !== JSON.stringify(requirement)) {
+      drift.push(`Swift package ${url} requires ${formatSetting(actual.packages[url])}, expected ${formatSetting(requirement)}`);
+    }
+  }
+  for (const url of Object.keys(actual.packages).filter((url) => !expected.packages[url])) {
+    drift.push(`Swift package ${url} is not in dependencies`);
+  }
+
+  for (const scheme of expected.schemes.filter((scheme) => !actual.schemes.includes(scheme))) {
+    drift.push(`Shared scheme ${scheme} is missing`);
+  }
+
+  drift.push(...await findPlistDrift(projectDir, config, options));
+
+  return drift;
+}
@@ -0,0 +1,148 @@
+/**
+ * Writing init's files into a directory that may already contain some of them
+ * (obsydian init . / --merge / --force)
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import Log from '../utils/log.js';
+import { promptSelect } from '../utils/prompts.js';
+
+/**
+ * What to do with files that already exist:
+ * overwrite (--force), keep them and write generated files as .new (--merge), or ask for each one
+ */
+export type ConflictMode = 'overwrite' | 'merge' | 'prompt';
+
+type ConflictAction = 'overwrite' | 'skip' | 'new-file';
+
+export type FileResult = 'created' | 'overwritten' | 'skipped' | 'new-file' | 'appended';
+
+export interface ProjectFileWriter {
+  // Write a file, relative to the project
+  writeFile(relativePath: string, contents: string | Buffer): Promise<void>;
+  // Generate a directory (such as Assets.xcassets); directories have no .new form, so merge keeps them
+  writeDirectory(relativePath: string, generate: () => Promise<void>): Promise<void>;
+  // Add the lines an existing file (such as .gitignore) is missing, or create it
+  appendLines(relativePath: string, contents: string): Promise<void>;
+  results: Array<{ path: string; result: FileResult }>;
+}
+
+/**
+ * Whether a directory is missing or has nothing in it
+ */
+export async function isEmptyDirectory(dir: string): Promise<boolean> {
+  return !await fs.pathExists(dir) || (await fs.readdir(dir)).length === 0;
+}
+
+async function chooseAction(mode: ConflictMode, relativePath: string, isDirectory: boolean): Promise<ConflictAction> {
+  if (mode === 'overwrite') return 'overwrite';
+  if (mode === 'merge') return isDirectory ? 'skip' : 'new-file';
+
+  return promptSelect<ConflictAction>(`${relativePath} already exists:`, [
+    { title: 'Keep it', value: 'skip' },
+    { title: 'Overwrite it', value: 'overwrite' },
+    ...(isDirectory ? [] : [{ title: `Keep it and write ${relativePath}.new`, value: 'new-file' as const }]),
+  ]);
+}
+
+export function createProjectFileWriter(projectDir: string, mode: ConflictMode): ProjectFileWriter {
+  const results: ProjectFileWriter['results'] = [];
+
+  return {
+    results,
+
+    async writeFile(relativePath, contents) {
+      const target = path.join(projectDir, relativePath);
+      await fs.ensureDir(path.dirname(target));
+
+      if (!await fs.pathExists(target)) {
+        await fs.writeFile(target, contents);
+        results.push({ path: relativePath, result: 'created' });
+        return;
+      }
+
+      // Re-running init after a partial failure should not ask about files it already wrote
+      if ((await fs.readFile(target)).equals(Buffer.from(contents))) {
+        results.push({ path: relativePath, result: 'skipped' });
+        return;
+      }
+
+      const action = await chooseAction(mode, relativePath, false);
+      if (action === 'overwrite') {
+        await fs.writeFile(target, contents);
+        results.push({ path: relativePath, result: 'overwritten' });
+      } else if (action === 'new-file') {
+        await fs.writeFile(`${target}.new`, contents);
+        results.push({ path: relativePath, result: 'new-file' });
+      } else {
+        results.push({ path: relativePath, result: 'skipped' });
+      }
+    },
+
+    async writeDirectory(relativePath, generate) {
+      const target = path.join(projectDir, relativePath);
+
+      if (!await fs.pathExists(target)) {
+        await generate();
+        results.push({ path: relativePath, result: 'created' });
+        return;
+      }
+
+      if (await chooseAction(mode, relativePath, true) === 'overwrite') {
+        await fs.remove(target);
+        await generate();
+        results.push({ path: relativePath, result: 'overwritten' });
+      } else {
+        results.push({ path: relativePath, result: 'skipped' });
+      }
+    },
+
+    async appendLines(relativePath, contents) {
+      const target = path.join(projectDir, relativePath);
+
+      if (!await fs.pathExists(target)) {
+        await fs.writeFile(target, contents);
+        results.push({ path: relativePath, result: 'created' });
+        return;
+      }
+
+      const existing = await fs.readFile(target, 'utf-8');
+      const existingLines = new Set(existing.split(/\r?\n/).map((line) => line.trim()));
+      const missing = contents
+        .split('\n')
+        .filter((line) => line.trim() && !line.startsWith('#') && !existingLines.has(line.trim()));
+
+      if (!missing.length) {
+        results.push({ path: relativePath, result: 'skipped' });
+        return;
+      }
+
+      const separator = existing.endsWith('\n') || !existing ? '' : '\n';
+      await fs.appendFile(target, `${separator}\n# Obsydian\n${missing.join('\n')}\n`);
+      results.push({ path: relativePath, result: 'appended' });
+    },
+  };
+}
+
+/**
+ * Print what happened to each file init wrote
+ */
+export function printFileSummary(results: ProjectFileWriter['results']): void {
+  const label = (entry: ProjectFileWriter['results'][number]): string => {
+    switch (entry.result) {
+      case 'created': return chalk.green('created');
+      case 'overwritten': return chalk.yellow('overwritten');
+      case 'skipped': return chalk.dim('skipped');
+      case 'new-file': return chalk.cyan(`skipped, wrote ${entry.path}.new`);
+      case 'appended': return chalk.green('appended');
+    }
+  };
+
+  const width = Math.max(...results.map((entry) => entry.path.length), 'File'.length);
+  Log.log(`  ${chalk.bold('File'.padEnd(width))}  ${chalk.bold('Result')}`);
+  for (const entry of results) {
+    Log.log(`  ${entry.path.padEnd(width)}  ${label(entry)}`);
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * Project templates for `obsydian init --template`
+ * A template is a directory with a template.json manifest; every other file is copied into the new project
+ * with {{placeholders}} filled in
+ */
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Log from '../utils/log.js';
+import { exec } from '../utils/exec.js';
+import { CommandError } from '../utils/errors.js';
+import { cloneRepository } from '../utils/git.js';
+import { closestMatch } from '../utils/suggestions.js';
+import { promptConfirm, promptSelect, promptText } from '../utils/prompts.js';
+import { PLATFORMS, type Platform } from './config.js';
+import type { PlistValue } from './templates/plist.js';
+
+export const TEMPLATE_MANIFEST_FILENAME = 'template.json';
+export const DEFAULT_TEMPLATE = 'default';
+
+// Language of a template's app code: Objective-C++, or Swift reaching the C++ API through a bridging header
+export const LANGUAGES = ['objcpp', 'swift'] as const;
+export type Language = typeof LANGUAGES[number];
+
+// Built-in template used for each language when no --template is given
+const DEFAULT_TEMPLATES: Record<Language, string> = {
+  objcpp: DEFAULT_TEMPLATE,
+  swift: 'swift',
+};
+
+const BUILT_IN_TEMPLATES_DIR = fileURLToPath(new URL('../../templates/', import.meta.url));
+
+/**
+ * A value the template asks for when the project is created, available as {{name}}
+ */
+export interface TemplatePrompt {
+  name: string;
+  message: string;
+  type?: 'text' | 'confirm' | 'select';
+  default?: string | boolean;
+  // Choices for type "select"
+  choices?: string[];
+}
+
+/**
+ * Shape of template.json
+ */
+export interface TemplateManifest {
+  name: string;
+  description?: string;
+  // Platforms the template supports (default: all)
+  platforms?: Platform[];
+  // Language of the app code (default: objcpp)
+  language?: Language;
+  prompts?: TemplatePrompt[];
+  // Keys added to the generated Info.plist and entitlements.plist; strings may use placeholders
+  infoPlist?: Record<string, PlistValue>;
+  entitlements?: Record<string, PlistValue>;
+  hooks?: {
+    // Shell commands run in the new project directory once its files are written
+    postGenerate?: string[];
+  };
+}
+
+export interface ProjectTemplate {
+  manifest: TemplateManifest;
+  dir: string;
+  // Where the template came from: built-in, a local path or a git URL
+  source: 'built-in' | 'path' | 'git';
+}
+
+export type TemplateValues = Record<string, string | boolean>;
+
+function isGitUrl(value: string): boolean {
+  return /^(https?:\/\/|ssh:\/\/|git:\/\/|git@)/.test(value) || /\.git(#.*)?$/.test(value);
+}
+
+function isLocalPath(value: string): boolean {
+  return value.startsWith('.') || value.startsWith('~') || path.isAbsolute(value) || value.includes(path.sep);
+}
+
+/**
+ * Read and check a template's template.json
+ */
+async function readTemplateManifest(dir: string): Promise<TemplateManifest> {
+  const manifestPath = path.join(dir, TEMPLATE_MANIFEST_FILENAME);
+  if (!await fs.pathExists(manifestPath)) {
+    throw new CommandError('TEMPLATE_INVALID', `${dir} is not a template: it has no ${TEMPLATE_MANIFEST_FILENAME}`);
+  }
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+  } catch (error: any) {
+    throw new CommandError('TEMPLATE_INVALID', `Invalid ${TEMPLATE_MANIFEST_FILENAME} in ${dir}: ${error.message}`);
+  }
+
+  const invalid = (reason: string) =>
+    new CommandError('TEMPLATE_INVALID', `Invalid ${TEMPLATE_MANIFEST_FILENAME} in ${dir}: ${reason}`);
+
+  if (typeof manifest?.name !== 'string') {
+    throw invalid('name must be a string');
+  }
+  if (manifest.platforms !== undefined
+    && !(Array.isArray(manifest.platforms) && manifest.platforms.every((p: unknown) => PLATFORMS.includes(p as Platform)))) {
+    throw invalid(`platforms must be a list of ${PLATFORMS.join(', ')}`);
+  }
+  if (manifest.language !== undefined && !LANGUAGES.includes(manifest.language)) {
+    throw invalid(`language must be one of ${LANGUAGES.join(', ')}`);
+  }
+  for (const prompt of manifest.prompts ?? []) {
+    if (typeof prompt?.name !== 'string' || typeof prompt?.message !== 'string') {
+      throw invalid('every prompt needs a name and a message');
+    }
+    if (prompt.type === 'select' && !Array.isArray(prompt.choices)) {
+      throw invalid(`prompt "${prompt.name}" is a select but has no choices`);
+    }
+  }
+  for (const key of ['infoPlist', 'entitlements']) {
+    const value = manifest[key];
+    if (value !== undefined && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+      throw invalid(`${key} must be an object of plist keys`);
+    }
+  }
+  if (manifest.hooks?.postGenerate !== undefined
+    && !(Array.isArray(manifest.hooks.postGenerate) && manifest.hooks.postGenerate.every((c: unknown) => typeof c === 'string'))) {
+    throw invalid('hooks.postGenerate must be a list of shell commands');
+  }
+
+  return manifest as TemplateManifest;
+}
+
+/**
+ * Check a --language value
+ */
+export function parseLanguage(value: string): Language {
+  const language = value.trim().toLowerCase();
+  if (LANGUAGES.includes(language as Language)) {
+    return language as Language;
+  }
+
+  const suggestion = closestMatch(language, [...LANGUAGES]);
+  throw new CommandError(
+    'INVALID_LANGUAGE',
+    `Unknown language "${value}"` + (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+      + `\nSupported languages: ${LANGUAGES.join(', ')}`
+  );
+}
+
+/**
+ * The language a template's app code is written in
+ */
+export function templateLanguage(template: ProjectTemplate): Language {
+  return template.manifest.language ?? 'objcpp';
+}
+
+/**
+ * Name of the built-in template to use for a language
+ */
+export function defaultTemplateFor(language: Language = 'objcpp'): string {
+  return DEFAULT_TEMPLATES[language];
+}
+
+/**
+ * List the templates that ship with the CLI
+ */
+export async function listBuiltInTemplates(): Promise<ProjectTemplate[]> {
+  const templates: ProjectTemplate[] = [];
+  const entries = await fs.readdir(BUILT_IN_TEMPLATES_DIR, { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!entry.isDirectory()) continue;
+    const dir = path.join(BUILT_IN_TEMPLATES_DIR, entry.name);
+    templates.push({ manifest: await readTemplateManifest(dir), dir, source: 'built-in' });
+  }
+
+  return templates;
+}
+
+/**
+ * Find a template by built-in name, local path or git URL (optionally with #branch).
+ * Git templates are cloned into a temporary directory.
+ */
+export async function resolveTemplate(spec: string = DEFAULT_TEMPLATE): Promise<ProjectTemplate> {
+  if (isGitUrl(spec)) {
+    const [url, ref] = spec.split('#');
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'obsydian-template-'));
+    Log.log(`Cloning template from ${url}...`);
+    try {
+      await cloneRepository(url, dir, ref);
+      return { manifest: await readTemplateManifest(dir), dir, source: 'git' };
+    } catch (error) {
+      await fs.remove(dir);
+      throw error;
+    }
+  }
+
+  if (isLocalPath(spec)) {
+    const dir = path.resolve(spec.replace(/^~(?=$|\/)/, os.homedir()));
+    if (!await fs.pathExists(dir)) {
+      throw new CommandError('TEMPLATE_NOT_FOUND', `Template directory not found: ${dir}`);
+    }
+    return { manifest: await readTemplateManifest(dir), dir, source: 'path' };
+  }
+
+  const builtIn = await listBuiltInTemplates();
+  const match = builtIn.find((template) => path.basename(template.dir) === spec);
+  if (!match) {
+    const names = builtIn.map((template) => path.basename(template.dir));
+    const suggestion = closestMatch(spec, names);
+    throw new CommandError(
+      'TEMPLATE_NOT_FOUND',
+      `Unknown template "${spec}"` + (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+        + `\nBuilt-in templates: ${names.join(', ')}`
+        + '\nA template can also be a local directory or a git URL.'
+    );
+  }
+  return match;
+}
+
+/**
+ * Ask for the values the template's prompts need.
+ * Without a TTY, or with useDefaults, prompts take their defaults.
+ */
+export async function collectTemplateValues(
+  template: ProjectTemplate,
+  useDefaults: boolean
+): Promise<TemplateValues> {
+  const values: TemplateValues = {};
+  const interactive = !useDefaults && !!process.stdin.isTTY;
+  const missing: string[] = [];
+
+  for (const prompt of template.manifest.prompts ?? []) {
+    if (!interactive) {
+      if (prompt.default === undefined) {
+        missing.push(prompt.name);
+      } else {
+        values[prompt.name] = prompt.default;
+      }
+      continue;
+    }
+
+    switch (prompt.type ?? 'text') {
+      case 'confirm':
+        values[prompt.name] = await promptConfirm(prompt.message, prompt.default !== false);
+        break;
+      case 'select':
+        values[prompt.name] = await promptSelect(
+          prompt.message,
+          prompt.choices!.map((choice) => ({ title: choice, value: choice }))
+        );
+        break;
+      default:
+        values[prompt.name] = await promptText(prompt.message, {
+          initial: prompt.default === undefined ? undefined : String(prompt.default),
+        });
+    }
+  }
+
+  if (missing.length) {
+    throw new CommandError(
+      'MISSING_INPUTS',
+      `Template "${template.manifest.name}" needs values that have no default: ${missing.join(', ')}. Run init from a terminal to enter them.`
+    );
+  }
+
+  return values;
+}
+
+/**
+ * Replace {{name}} placeholders; unknown placeholders are left as they are.
+ * format turns each value into the text that replaces it, e.g. shell-quoting it for hooks.
+ */
+export function fillPlaceholders(
+  text: string,
+  values: TemplateValues,
+  format: (value: string, name: string) => string = (value) => value
+): string {
+  return text.replace(/\{\{\s*([A-Za-z_][\w]*)\s*\}\}/g, (match, name: string) =>
+    name in values ? format(String(values[name]), name) : match);
+}
+
+/**
+ * A value as a single shell word
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Fill in the placeholders of a template file's path.
+ * Values must not contain path separators or .., so every file stays inside the project.
+ */
+function fillPathPlaceholders(relativePath: string, values: TemplateValues): string {
+  return fillPlaceholders(relativePath, values, (value, name) => {
+    if (/[/\\]/.test(value) || value.includes('..')) {
+      throw new CommandError(
+        'INVALID_TEMPLATE_VALUE',
+        `${name} is used in the file name ${relativePath}, so it cannot contain "/", "\\" or "..": ${value}`
+      );
+    }
+    return value;
+  });
+}
+
+/**
+ * A template's extra Info.plist or entitlements keys, with placeholders filled in
+ */
+export function templatePlistKeys(
+  template: ProjectTemplate,
+  file: 'infoPlist' | 'entitlements',
+  values: TemplateValues
+): Record<string, PlistValue> {
+  const fill = (value: PlistValue): PlistValue => {
+    if (typeof value === 'string') return fillPlaceholders(value, values);
+    if (Array.isArray(value)) return value.map(fill);
+    if (typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item)]));
+    }
+    return value;
+  };
+  return fill(template.manifest[file] ?? {}) as Record<string, PlistValue>;
+}
+
+/**
+ * Copy a template's files into the project, filling in placeholders in file contents and names.
+ * Returns the template's files, relative to the project.
+ */
+export async function renderTemplate(
+  template: ProjectTemplate,
+  projectDir: string,
+  values: TemplateValues,
+  writeFile: (relativePath: string, contents: string | Buffer) => Promise<void> = async (relativePath, contents) => {
+    await fs.ensureDir(path.dirname(path.join(projectDir, relativePath)));
+    await fs.writeFile(path.join(projectDir, relativePath), contents);
+  }
+): Promise<string[]> {
+  const written: string[] = [];
+
+  const copyDir = async (relativeDir: string) => {
+    const entries = await fs.readdir(path.join(template.dir, relativeDir), { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name === '.git' || (!relativeDir && entry.name === TEMPLATE_MANIFEST_FILENAME)) continue;
+
+      const sourcePath = path.join(relativeDir, entry.name);
+      if (entry.isDirectory()) {
+        await copyDir(sourcePath);
+        continue;
+      }
+
+      const targetPath = fillPathPlaceholders(sourcePath, values);
+      const contents = await fs.readFile(path.join(template.dir, sourcePath));
+      // Binary files (images, archives) are copied untouched
+      await writeFile(targetPath, contents.includes(0) ? contents : fillPlaceholders(contents.toString('utf-8'), values));
+      written.push(targetPath);
+    }
+  };
+
+  await copyDir('');
+  return written;
+}
+
+/**
+ * Whether to run the template's postGenerate hooks.
+ * Hooks of built-in templates always run. Hooks of other templates run with --yes (assumeYes),
+ * or once the user has seen the commands and agreed; without a TTY they are skipped.
+ */
+export async function confirmTemplateHooks(
+  template: ProjectTemplate,
+  values: TemplateValues,
+  assumeYes: boolean
+): Promise<boolean> {
+  const commands = (template.manifest.hooks?.postGenerate ?? []).map((command) => fillPlaceholders(command, values, shellQuote));
+  if (!commands.length || template.source === 'built-in' || assumeYes) {
+    return true;
+  }
+
+  Log.log(`Template "${template.manifest.name}" runs these commands after creating the project:`);
+  for (const command of commands) {
+    Log.log(`  ${command}`);
+  }
+  if (!process.stdin.isTTY) {
+    Log.warn('Skipping them, as there is no terminal to confirm them in. Pass --yes to run them.');
+    return false;
+  }
+  return promptConfirm('Run them?', false);
+}
+
+/**
+ * Run the template's post-generate hooks in the new project, with placeholder values shell-quoted
+ */
+export async function runTemplateHooks(
+  template: ProjectTemplate,
+  projectDir: string,
+  values: TemplateValues
+): Promise<void> {
+  for (const command of template.manifest.hooks?.postGenerate ?? []) {
+    const filled = fillPlaceholders(command, values, shellQuote);
+    Log.log(`Running template hook: ${filled}`);
+
+    const result = await exec('sh', ['-c', filled], { cwd: projectDir, silent: true });
+    if (result.exitCode !== 0) {
+      throw new CommandError(
+        'TEMPLATE_HOOK_FAILED',
+        `Template hook failed (exit code ${result.exitCode}): ${filled}\n${(result.stderr || result.stdout).trim()}`
+      );
+    }
+  }
+}
+
+/**
+ * Remove a template cloned from git once the project has been created
+ */
+export async function cleanupTemplate(template: ProjectTemplate): Promise<void> {
+  if (template.source === 'git') {
+    await fs.remove(template.dir);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Swift Package Manager dependencies (dependencies.swiftPackages in obsydian.json)
+ */
+
+import { CommandError } from '../utils/errors.js';
+import type { Platform, SwiftPackage } from './config.js';
+
+export const REQUIREMENT_KEYS = ['from', 'exact', 'branch', 'revision'] as const;
+
+/**
+ * The requirement of a package's XCRemoteSwiftPackageReference
+ */
+export function swiftPackageRequirement(swiftPackage: SwiftPackage): Record<string, string> {
+  const given = REQUIREMENT_KEYS.filter((key) => swiftPackage[key] !== undefined);
+  if (given.length !== 1) {
+    throw new CommandError(
+      'INVALID_PACKAGE',
+      `Swift package ${swiftPackage.url} needs exactly one of ${REQUIREMENT_KEYS.join(', ')}`
+        + (given.length ? ` (got ${given.join(', ')})` : '')
+    );
+  }
+
+  switch (given[0]) {
+    case 'from': return { kind: 'upToNextMajorVersion', minimumVersion: swiftPackage.from! };
+    case 'exact': return { kind: 'exactVersion', version: swiftPackage.exact! };
+    case 'branch': return { kind: 'branch', branch: swiftPackage.branch! };
+    case 'revision': return { kind: 'revision', revision: swiftPackage.revision! };
+  }
+}
+
+/**
+ * Package name from its repository URL (https://github.com/sparkle-project/Sparkle.git → Sparkle)
+ */
+export function swiftPackageName(url: string): string {
+  return url.trim().replace(/\/+$/, '').replace(/\.git$/, '').split(/[/:]/).pop() || url;
+}
+
+/**
+ * Whether two URLs are the same repository, ignoring a trailing slash, .git and case
+ */
+export function isSamePackageUrl(a: string, b: string): boolean {
+  const normalize = (url: string) => url.trim().replace(/\/+$/, '').replace(/\.git$/, '').toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Packages whose products the app links on a platform
+ */
+export function packagesForPlatform(swiftPackages: SwiftPackage[], platform: Platform): SwiftPackage[] {
+  return swiftPackages.filter((swiftPackage) => !swiftPackage.platforms || swiftPackage.platforms.includes(platform));
+}
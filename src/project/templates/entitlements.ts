@@ -3,21 +3,43 @@
  * Required for App Store submission (App Sandbox)
  */
 
-export function generateEntitlements(bundleId: string): string {
+import type { MacosSettings } from '../config.js';
+import { resolveMacosSettings } from '../apple-settings.js';
+import { serializePlistEntries, type PlistValue } from './plist.js';
+
+/**
+ * Entitlements that follow from apple.macos.sandbox, which prebuild keeps up to date.
+ * Keys that do not apply are undefined, so updating an existing file removes them.
+ */
+export function managedEntitlementKeys(macos?: MacosSettings): Record<string, PlistValue | undefined> {
+  const { sandbox } = resolveMacosSettings(macos);
+  const userSelectedFiles = (access: 'read-only' | 'read-write') =>
+    sandbox.enabled && sandbox.userSelectedFiles === access ? true : undefined;
+
+  return {
+    'com.apple.security.app-sandbox': sandbox.enabled,
+    'com.apple.security.network.client': sandbox.enabled ? sandbox.networkClient : undefined,
+    'com.apple.security.network.server': sandbox.enabled ? sandbox.networkServer : undefined,
+    'com.apple.security.files.user-selected.read-only': userSelectedFiles('read-only'),
+    'com.apple.security.files.user-selected.read-write': userSelectedFiles('read-write'),
+  };
+}
+
+export function generateEntitlements(
+  bundleId: string,
+  macos?: MacosSettings,
+  extraKeys: Record<string, PlistValue> = {}
+): string {
+  const entries = Object.fromEntries(
+    Object.entries(managedEntitlementKeys(macos)).filter((entry): entry is [string, PlistValue] => entry[1] !== undefined)
+  );
+
+  // Template keys (e.g. for document access) win over the sandbox defaults
   return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
 <plist version="1.0">
 <dict>
-    <key>com.apple.security.app-sandbox</key>
-    <true/>
-    <key>com.apple.security.network.client</key>
-    <true/>
-    <key>com.apple.security.network.server</key>
-    <false/>
-    <key>com.apple.security.files.user-selected.read-only</key>
-    <true/>
-    <key>com.apple.security.files.user-selected.read-write</key>
-    <true/>
+${serializePlistEntries({ ...entries, ...extraKeys })}
 </dict>
 </plist>
 `;
@@ -0,0 +1,37 @@
+/**
+ * Generate .gitignore template
+ * Covers what Xcode and the CLI write into the project directory
+ */
+
+export function generateGitignore(): string {
+  return `# Xcode
+xcuserdata/
+*.xcuserstate
+DerivedData/
+*.xcarchive
+
+# Build output (obsydian build, build-info.json)
+build/
+
+# Variant app icons (generated from AppIcon.appiconset by obsydian prebuild)
+Assets.xcassets/AppIcon-*.appiconset/
+
+# Obsydian framework (downloaded by obsydian init / framework update, or a framework link)
+Frameworks/
+
+# App Store Connect API keys (obsydian credentials setup) - DO NOT COMMIT
+.keys/
+*.p8
+
+# Local environment overrides
+.env.local
+
+# OS
+.DS_Store
+Thumbs.db
+
+# IDE
+.idea/
+.vscode/
+`;
+}
@@ -2,11 +2,69 @@
  * Generate Info.plist template
  */
 
+import type { IosSettings, MacosSettings, Platform } from '../config.js';
+import { interfaceOrientation, resolveIosSettings, resolveMacosSettings } from '../apple-settings.js';
+import { serializePlistEntries, type PlistValue } from './plist.js';
+
+export interface InfoPlistOptions {
+  platforms: Platform[];
+  buildNumber?: number;
+  ios?: IosSettings;
+  macos?: MacosSettings;
+  // Extra keys from the project template, e.g. LSUIElement or CFBundleDocumentTypes
+  extraKeys?: Record<string, PlistValue>;
+}
+
+/**
+ * Info.plist keys that follow from apple.macos / apple.ios, which prebuild keeps up to date
+ */
+export function managedInfoPlistKeys(
+  platform: 'macos' | 'ios',
+  settings: { ios?: IosSettings; macos?: MacosSettings }
+): Record<string, PlistValue> {
+  if (platform === 'macos') {
+    return { LSApplicationCategoryType: resolveMacosSettings(settings.macos).category };
+  }
+
+  const ios = resolveIosSettings(settings.ios);
+  return {
+    UISupportedInterfaceOrientations: ios.supportedOrientations.map(interfaceOrientation),
+    'UISupportedInterfaceOrientations~ipad': ios.supportedOrientationsIpad.map(interfaceOrientation),
+  };
+}
+
 export function generateInfoPlist(
   projectName: string,
   bundleId: string,
-  version: string
+  version: string,
+  options: InfoPlistOptions = { platforms: ['macos'] }
 ): string {
+  const platformEntries: string[] = [];
+
+  if (options.platforms.includes('macos')) {
+    platformEntries.push(`    <key>LSMinimumSystemVersion</key>
+    <string>$(MACOSX_DEPLOYMENT_TARGET)</string>
+    <key>NSHighResolutionCapable</key>
+    <true/>
+    <key>NSPrincipalClass</key>
+    <string>NSApplication</string>
+    <key>NSHumanReadableCopyright</key>
+    <string>Copyright © 2025. All rights reserved.</string>
+${serializePlistEntries(managedInfoPlistKeys('macos', options))}`);
+  }
+
+  if (options.platforms.includes('ios')) {
+    platformEntries.push(`    <key>LSRequiresIPhoneOS</key>
+    <true/>
+    <key>UILaunchScreen</key>
+    <dict/>
+${serializePlistEntries(managedInfoPlistKeys('ios', options))}`);
+  }
+
+  if (options.extraKeys && Object.keys(options.extraKeys).length) {
+    platformEntries.push(serializePlistEntries(options.extraKeys));
+  }
+
   return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
 <plist version="1.0">
@@ -15,8 +73,10 @@ export function generateInfoPlist(
     <string>en</string>
     <key>CFBundleExecutable</key>
     <string>${projectName}</string>
+    <key>CFBundleDisplayName</key>
+    <string>$(APP_DISPLAY_NAME)</string>
     <key>CFBundleIdentifier</key>
-    <string>${bundleId}</string>
+    <string>$(PRODUCT_BUNDLE_IDENTIFIER)</string>
     <key>CFBundleInfoDictionaryVersion</key>
     <string>6.0</string>
     <key>CFBundleName</key>
@@ -26,17 +86,8 @@ export function generateInfoPlist(
     <key>CFBundleShortVersionString</key>
     <string>${version}</string>
     <key>CFBundleVersion</key>
-    <string>1</string>
-    <key>LSMinimumSystemVersion</key>
-    <string>14.0</string>
-    <key>NSHighResolutionCapable</key>
-    <true/>
-    <key>NSPrincipalClass</key>
-    <string>NSApplication</string>
-    <key>NSHumanReadableCopyright</key>
-    <string>Copyright © 2025. All rights reserved.</string>
-    <key>LSApplicationCategoryType</key>
-    <string>public.app-category.utilities</string>
+    <string>${options.buildNumber ?? 1}</string>
+${platformEntries.join('\n')}
 </dict>
 </plist>
 `;
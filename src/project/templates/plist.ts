@@ -0,0 +1,94 @@
+/**
+ * Serialize JSON values as property list XML
+ * Used for Info.plist and entitlements keys that come from templates, and keys prebuild keeps up to date
+ */
+
+export type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function serializeValue(value: PlistValue, indent: string): string {
+  if (typeof value === 'string') {
+    return `${indent}<string>${escapeXml(value)}</string>`;
+  }
+  if (typeof value === 'boolean') {
+    return `${indent}<${value}/>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? `${indent}<integer>${value}</integer>` : `${indent}<real>${value}</real>`;
+  }
+  if (Array.isArray(value)) {
+    if (!value.length) return `${indent}<array/>`;
+    return [`${indent}<array>`, ...value.map((item) => serializeValue(item, indent + '    ')), `${indent}</array>`].join('\n');
+  }
+  const entries = Object.entries(value);
+  if (!entries.length) return `${indent}<dict/>`;
+  return [`${indent}<dict>`, serializePlistEntries(value, indent + '    '), `${indent}</dict>`].join('\n');
+}
+
+/**
+ * Key/value lines for the inside of a <dict>, indented to match the generated plists
+ */
+export function serializePlistEntries(entries: Record<string, PlistValue>, indent = '    '): string {
+  return Object.entries(entries)
+    .map(([key, value]) => `${indent}<key>${escapeXml(key)}</key>\n${serializeValue(value, indent)}`)
+    .join('\n');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+/**
+ * A top-level key with a value of the kinds the CLI writes itself: strings, booleans and arrays of strings
+ */
+function managedKeyPattern(key: string): RegExp {
+  return new RegExp(
+    `\\n?[ \\t]*<key>${escapeRegExp(escapeXml(key))}</key>\\s*(<string>[^<]*</string>|<true/>|<false/>|<array>[\\s\\S]*?</array>|<array/>)`
+  );
+}
+
+/**
+ * Value of a top-level key in property list XML, if it is one the CLI writes (see setPlistKeys)
+ */
+export function getPlistValue(contents: string, key: string): PlistValue | undefined {
+  const match = managedKeyPattern(key).exec(contents);
+  if (!match) return undefined;
+
+  const value = match[1];
+  if (value === '<true/>' || value === '<false/>') return value === '<true/>';
+  if (value.startsWith('<string>')) return unescapeXml(value.slice('<string>'.length, -'</string>'.length));
+  return [...value.matchAll(/<string>([^<]*)<\/string>/g)].map((item) => unescapeXml(item[1]));
+}
+
+/**
+ * Set or remove (undefined) top-level keys in existing property list XML, leaving the rest as written.
+ * Only values the CLI writes itself are replaced: strings, booleans and arrays of strings.
+ */
+export function setPlistKeys(contents: string, entries: Record<string, PlistValue | undefined>): string {
+  let updated = contents;
+
+  for (const [key, value] of Object.entries(entries)) {
+    const existing = managedKeyPattern(key);
+    if (existing.test(updated)) {
+      // Replace in place, so keys keep their position in the file
+      updated = updated.replace(existing, () => (value === undefined ? '' : `\n${serializePlistEntries({ [key]: value })}`));
+      continue;
+    }
+    if (value === undefined) continue;
+
+    // Add the key at the end of the top-level dict
+    const end = updated.lastIndexOf('</dict>');
+    if (end === -1) continue;
+    const before = updated.slice(0, end).replace(/\s*$/, '\n');
+    updated = `${before}${serializePlistEntries({ [key]: value })}\n${updated.slice(end)}`;
+  }
+
+  return updated;
+}
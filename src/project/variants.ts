@@ -0,0 +1,134 @@
+/**
+ * App variants (dev, staging, prod) built side by side from one project
+ * Each variant gets its own Xcode build configurations, e.g. Debug-staging and Release-staging
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import Log from '../utils/log.js';
+import { CommandError } from '../utils/errors.js';
+import { closestMatch } from '../utils/suggestions.js';
+import { generateBadgedIcon } from './icon-generator.js';
+import type { ObsydianConfig, Variant } from './config.js';
+
+/**
+ * Look up a variant by name
+ */
+export function resolveVariant(config: ObsydianConfig, name: string): Variant {
+  const variants = config.variants ?? {};
+  if (variants[name]) {
+    return variants[name];
+  }
+
+  const available = Object.keys(variants);
+  const suggestion = closestMatch(name, available);
+  throw new CommandError(
+    'VARIANT_NOT_FOUND',
+    `Unknown variant "${name}"` + (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+      + (available.length
+        ? `\nAvailable variants: ${available.join(', ')}`
+        : '\nNo variants are defined in obsydian.json')
+  );
+}
+
+/**
+ * Xcode build configuration for a base configuration and variant
+ */
+export function variantConfigurationName(configuration: string, variantName?: string): string {
+  return variantName ? `${configuration}-${variantName}` : configuration;
+}
+
+/**
+ * Bundle identifier of a variant
+ */
+export function variantBundleId(config: ObsydianConfig, variant?: Variant): string {
+  return config.bundleId + (variant?.bundleIdSuffix ?? '');
+}
+
+/**
+ * App icon set used by a variant (badged variants get their own copy)
+ */
+export function variantAppIconName(variantName?: string, variant?: Variant): string {
+  return variantName && variant?.iconBadge ? `AppIcon-${variantName}` : 'AppIcon';
+}
+
+/**
+ * Whether the generated Xcode project is missing a build configuration.
+ * Projects generated before a variant was added need to be regenerated.
+ * A missing project is reported by the build itself.
+ */
+async function isMissingBuildConfiguration(projectDir: string, projectName: string, name: string): Promise<boolean> {
+  const pbxprojPath = path.join(projectDir, `${projectName}.xcodeproj`, 'project.pbxproj');
+  if (!await fs.pathExists(pbxprojPath)) {
+    return false;
+  }
+
+  const pbxproj = await fs.readFile(pbxprojPath, 'utf-8');
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return !new RegExp(`name = "?${escaped}"?;`).test(pbxproj);
+}
+
+/**
+ * Copy the app icon set for a badged variant and draw the badge on it.
+ * Without python3 and Pillow the copy keeps the regular icon, so the variant's icon set always exists.
+ */
+async function drawVariantIcon(projectDir: string, variantName: string, variant: Variant): Promise<void> {
+  if (!variant.iconBadge) {
+    return;
+  }
+
+  if (!await fs.pathExists(path.join(projectDir, 'Assets.xcassets', 'AppIcon.appiconset'))) {
+    Log.warn(`No Assets.xcassets/AppIcon.appiconset to badge for the "${variantName}" variant`);
+    return;
+  }
+
+  const badged = await generateBadgedIcon(projectDir, variantAppIconName(variantName, variant), variant.iconBadge);
+  if (!badged) {
+    Log.warn(`Could not draw the "${variant.iconBadge.text}" icon badge (requires python3 with Pillow)`);
+  }
+}
+
+/**
+ * Generate the icon sets of all badged variants, which their build configurations use
+ */
+export async function generateVariantIcons(projectDir: string, config: ObsydianConfig): Promise<void> {
+  for (const [variantName, variant] of Object.entries(config.variants ?? {})) {
+    await drawVariantIcon(projectDir, variantName, variant);
+  }
+}
+
+export interface PreparedVariant {
+  variant?: Variant;
+  // Xcode build configuration to build, e.g. Release-staging
+  configuration: string;
+  bundleId: string;
+}
+
+/**
+ * Resolve the variant for a build and get the project ready for it:
+ * checks that the Xcode project has the variant's configuration and draws its icon badge
+ */
+export async function prepareVariant(
+  projectDir: string,
+  config: ObsydianConfig,
+  configuration: 'Debug' | 'Release',
+  variantName?: string
+): Promise<PreparedVariant> {
+  if (!variantName) {
+    return { configuration, bundleId: config.bundleId };
+  }
+
+  const variant = resolveVariant(config, variantName);
+  const xcodeConfiguration = variantConfigurationName(configuration, variantName);
+
+  if (await isMissingBuildConfiguration(projectDir, config.name, xcodeConfiguration)) {
+    throw new CommandError(
+      'VARIANT_NOT_GENERATED',
+      `The Xcode project has no "${xcodeConfiguration}" configuration. Run "obsydian prebuild" to regenerate the project.`
+    );
+  }
+
+  await drawVariantIcon(projectDir, variantName, variant);
+
+  return { variant, configuration: xcodeConfiguration, bundleId: variantBundleId(config, variant) };
+}
@@ -0,0 +1,225 @@
+/**
+ * App version and build number
+ * obsydian.json is the source of truth; Info.plist and the Xcode project are kept in sync with it
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { CommandError } from '../utils/errors.js';
+import { listTags } from '../utils/git.js';
+import type { ObsydianConfig } from './config.js';
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export const VERSION_BUMPS: VersionBump[] = ['major', 'minor', 'patch'];
+
+interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+/**
+ * Parse a version such as 1.2.3, 1.2 or v1.2.3
+ */
+function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)(?:\.(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  return { major: Number(match[1]), minor: Number(match[2]), patch: Number(match[3] ?? 0) };
+}
+
+function compareVersions(a: SemVer, b: SemVer): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/**
+ * Increment one part of a version, resetting the parts after it
+ */
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    throw new CommandError('INVALID_VERSION', `Cannot bump "${version}": expected a version like 1.2.3`);
+  }
+
+  switch (bump) {
+    case 'major': return `${parsed.major + 1}.0.0`;
+    case 'minor': return `${parsed.major}.${parsed.minor + 1}.0`;
+    case 'patch': return `${parsed.major}.${parsed.minor}.${parsed.patch + 1}`;
+  }
+}
+
+/**
+ * Check a build number given on the command line
+ */
+export function parseBuildNumber(value: string): number {
+  const buildNumber = Number(value);
+  if (!/^\d+$/.test(value) || buildNumber < 1) {
+    throw new CommandError('INVALID_BUILD_NUMBER', `Build number must be a positive integer, got "${value}"`);
+  }
+  return buildNumber;
+}
+
+/**
+ * Version of the highest semver tag among tags (v1.2.3 → 1.2.3), or null when none is a version
+ */
+export function highestTagVersion(tags: string[]): string | null {
+  let latest: SemVer | null = null;
+  for (const tag of tags) {
+    const parsed = parseVersion(tag);
+    if (parsed && (!latest || compareVersions(parsed, latest) > 0)) {
+      latest = parsed;
+    }
+  }
+
+  return latest ? `${latest.major}.${latest.minor}.${latest.patch}` : null;
+}
+
+/**
+ * Version of the highest semver tag reachable from HEAD (v1.2.3 → 1.2.3)
+ */
+export async function versionFromGitTags(projectDir: string): Promise<string> {
+  const latest = highestTagVersion(await listTags(projectDir));
+  if (!latest) {
+    throw new CommandError('NO_VERSION_TAG', 'No semver tag (e.g. v1.2.3) is reachable from HEAD');
+  }
+  return latest;
+}
+
+/**
+ * Version and build number as recorded in one file
+ */
+export interface VersionRecord {
+  file: string;
+  // Missing when the file does not exist; several values when configurations disagree
+  versions: string[];
+  buildNumbers: string[];
+}
+
+/**
+ * Info.plist files in the project: one shared by single-platform apps, one per target for apps with both platforms
+ */
+async function findInfoPlists(projectDir: string): Promise<string[]> {
+  const candidates = ['Info.plist', 'Info-macOS.plist', 'Info-iOS.plist'];
+  const found: string[] = [];
+  for (const candidate of candidates) {
+    if (await fs.pathExists(path.join(projectDir, candidate))) {
+      found.push(candidate);
+    }
+  }
+  return found;
+}
+
+function pbxprojPath(projectDir: string, projectName: string): string {
+  return path.join(projectDir, `${projectName}.xcodeproj`, 'project.pbxproj');
+}
+
+function plistStringPattern(key: string): RegExp {
+  return new RegExp(`(<key>${key}</key>\\s*<string>)([^<]*)(</string>)`, 'g');
+}
+
+function buildSettingPattern(setting: string): RegExp {
+  return new RegExp(`(\\b${setting} = )("?)([^";]*)\\2;`, 'g');
+}
+
+function uniqueMatches(contents: string, pattern: RegExp, group: number): string[] {
+  return [...new Set([...contents.matchAll(pattern)].map((match) => match[group]))];
+}
+
+/**
+ * Quote a build setting value the way pbxproj files do
+ */
+function pbxprojValue(value: string): string {
+  return /^[\w.$/:-]+$/.test(value) ? value : `"${value}"`;
+}
+
+/**
+ * Read the version and build number from obsydian.json, Info.plist and the Xcode project
+ */
+export async function readVersionRecords(projectDir: string, config: ObsydianConfig): Promise<VersionRecord[]> {
+  const records: VersionRecord[] = [{
+    file: 'obsydian.json',
+    versions: [config.version],
+    buildNumbers: [String(config.buildNumber ?? 1)],
+  }];
+
+  for (const infoPlist of await findInfoPlists(projectDir)) {
+    const plist = await fs.readFile(path.join(projectDir, infoPlist), 'utf-8');
+    records.push({
+      file: infoPlist,
+      versions: uniqueMatches(plist, plistStringPattern('CFBundleShortVersionString'), 2),
+      buildNumbers: uniqueMatches(plist, plistStringPattern('CFBundleVersion'), 2),
+    });
+  }
+
+  if (await fs.pathExists(pbxprojPath(projectDir, config.name))) {
+    const pbxproj = await fs.readFile(pbxprojPath(projectDir, config.name), 'utf-8');
+    records.push({
+      file: `${config.name}.xcodeproj`,
+      versions: uniqueMatches(pbxproj, buildSettingPattern('MARKETING_VERSION'), 3),
+      buildNumbers: uniqueMatches(pbxproj, buildSettingPattern('CURRENT_PROJECT_VERSION'), 3),
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Whether a file's version and build number match obsydian.json.
+ * Info.plist values that refer to build settings, e.g. $(MARKETING_VERSION), always match.
+ */
+export function isRecordInSync(record: VersionRecord, config: ObsydianConfig): boolean {
+  const matches = (values: string[], expected: string) =>
+    values.every((value) => value === expected || value.startsWith('$('));
+  return matches(record.versions, config.version) && matches(record.buildNumbers, String(config.buildNumber ?? 1));
+}
+
+/**
+ * Info.plist contents with the version and build number from obsydian.json.
+ * Values that refer to build settings, e.g. $(MARKETING_VERSION), are left alone.
+ */
+export function syncInfoPlistVersion(contents: string, config: ObsydianConfig): string {
+  const replacePlistValue = (plist: string, key: string, value: string) =>
+    plist.replace(plistStringPattern(key), (match, open, current, close) =>
+      current.startsWith('$(') ? match : `${open}${value}${close}`);
+
+  const withVersion = replacePlistValue(contents, 'CFBundleShortVersionString', config.version);
+  return replacePlistValue(withVersion, 'CFBundleVersion', String(config.buildNumber ?? 1));
+}
+
+/**
+ * Write the version and build number from obsydian.json into Info.plist and the Xcode project.
+ * Returns the files that changed.
+ */
+export async function syncVersion(projectDir: string, config: ObsydianConfig): Promise<string[]> {
+  const version = config.version;
+  const buildNumber = String(config.buildNumber ?? 1);
+  const changed: string[] = [];
+
+  const replaceBuildSetting = (contents: string, setting: string, value: string) =>
+    contents.replace(buildSettingPattern(setting), (_match, prefix) => `${prefix}${pbxprojValue(value)};`);
+
+  for (const infoPlist of await findInfoPlists(projectDir)) {
+    const plistFile = path.join(projectDir, infoPlist);
+    const before = await fs.readFile(plistFile, 'utf-8');
+    const after = syncInfoPlistVersion(before, config);
+    if (after !== before) {
+      await fs.writeFile(plistFile, after);
+      changed.push(infoPlist);
+    }
+  }
+
+  const projectFile = pbxprojPath(projectDir, config.name);
+  if (await fs.pathExists(projectFile)) {
+    const before = await fs.readFile(projectFile, 'utf-8');
+    let after = replaceBuildSetting(before, 'MARKETING_VERSION', version);
+    after = replaceBuildSetting(after, 'CURRENT_PROJECT_VERSION', buildNumber);
+    if (after !== before) {
+      await fs.writeFile(projectFile, after);
+      changed.push(`${config.name}.xcodeproj`);
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,191 @@
+/**
+ * Obsydian workspaces (obsydian-workspace.json)
+ * A workspace groups several apps in one repository and lists the source directories they share
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { CommandError } from '../utils/errors.js';
+import { closestMatch } from '../utils/suggestions.js';
+import {
+  CONFIG_FILENAME,
+  findDynamicConfigPath,
+  findProjectRoot,
+  readConfigAsWritten,
+  type ObsydianConfig,
+} from './config.js';
+
+export const WORKSPACE_FILENAME = 'obsydian-workspace.json';
+
+export interface ObsydianWorkspace {
+  // App directories, relative to the workspace root
+  apps: string[];
+  // Source directories shared by every app, relative to the workspace root
+  shared?: string[];
+}
+
+export interface WorkspaceApp {
+  // Name from the app's config, or its directory name when the config cannot be read
+  name: string;
+  dir: string;
+  config?: ObsydianConfig;
+}
+
+/**
+ * Options for commands that can act on workspace apps
+ */
+export interface AppSelection {
+  app?: string;
+  all?: boolean;
+}
+
+/**
+ * Find the workspace root by looking for obsydian-workspace.json
+ */
+export async function findWorkspaceRoot(startDir: string = process.cwd()): Promise<string | null> {
+  let currentDir = startDir;
+
+  while (currentDir !== path.dirname(currentDir)) {
+    if (await fs.pathExists(path.join(currentDir, WORKSPACE_FILENAME))) {
+      return currentDir;
+    }
+    currentDir = path.dirname(currentDir);
+  }
+
+  return null;
+}
+
+/**
+ * Read and check obsydian-workspace.json
+ */
+export async function readWorkspace(workspaceDir: string): Promise<ObsydianWorkspace> {
+  const workspacePath = path.join(workspaceDir, WORKSPACE_FILENAME);
+
+  let workspace: any;
+  try {
+    workspace = JSON.parse(await fs.readFile(workspacePath, 'utf-8'));
+  } catch (error: any) {
+    throw new CommandError('WORKSPACE_INVALID', `Invalid ${WORKSPACE_FILENAME}: ${error.message}`);
+  }
+
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+  if (!isStringArray(workspace?.apps)) {
+    throw new CommandError('WORKSPACE_INVALID', `Invalid ${WORKSPACE_FILENAME}: apps must be an array of directories`);
+  }
+  if (workspace.shared !== undefined && !isStringArray(workspace.shared)) {
+    throw new CommandError('WORKSPACE_INVALID', `Invalid ${WORKSPACE_FILENAME}: shared must be an array of directories`);
+  }
+
+  return workspace as ObsydianWorkspace;
+}
+
+/**
+ * Write obsydian-workspace.json
+ */
+export async function writeWorkspace(workspaceDir: string, workspace: ObsydianWorkspace): Promise<void> {
+  await fs.writeFile(path.join(workspaceDir, WORKSPACE_FILENAME), JSON.stringify(workspace, null, 2) + '\n');
+}
+
+/**
+ * List the apps in a workspace, in the order obsydian-workspace.json lists them
+ */
+export async function listWorkspaceApps(workspaceDir: string, workspace: ObsydianWorkspace): Promise<WorkspaceApp[]> {
+  const apps: WorkspaceApp[] = [];
+
+  for (const appPath of workspace.apps) {
+    const dir = path.resolve(workspaceDir, appPath);
+    let config: ObsydianConfig | undefined;
+    try {
+      config = await readConfigAsWritten(dir);
+    } catch {
+      // Reported by `obsydian workspace list`; other commands fail when they read it
+    }
+    apps.push({ name: config?.name ?? path.basename(dir), dir, config });
+  }
+
+  return apps;
+}
+
+/**
+ * Absolute paths of the workspace's shared source directories
+ */
+export function getSharedSourceDirs(workspaceDir: string, workspace: ObsydianWorkspace): string[] {
+  return (workspace.shared ?? []).map((dir) => path.resolve(workspaceDir, dir));
+}
+
+/**
+ * Resolve which project directories a command should act on.
+ * Without --app/--all this is the project containing the current directory.
+ */
+export async function resolveProjectDirs(selection: AppSelection = {}): Promise<string[]> {
+  if (selection.app && selection.all) {
+    throw new CommandError('INVALID_OPTIONS', 'Pass either --app or --all, not both');
+  }
+
+  if (!selection.app && !selection.all) {
+    const projectDir = await findProjectRoot();
+    if (projectDir) {
+      return [projectDir];
+    }
+    if (await findWorkspaceRoot()) {
+      throw new CommandError(
+        'NOT_IN_PROJECT',
+        `Not in an Obsydian project. Pass --app <name> or --all to pick apps from ${WORKSPACE_FILENAME}.`
+      );
+    }
+    throw new CommandError('NOT_IN_PROJECT', 'Not in an Obsydian project. Run "obsydian init" first.');
+  }
+
+  const workspaceDir = await findWorkspaceRoot();
+  if (!workspaceDir) {
+    throw new CommandError(
+      'WORKSPACE_NOT_FOUND',
+      `--${selection.all ? 'all' : 'app'} requires an ${WORKSPACE_FILENAME} in this directory or a parent`
+    );
+  }
+
+  const workspace = await readWorkspace(workspaceDir);
+  const apps = await listWorkspaceApps(workspaceDir, workspace);
+
+  if (selection.all) {
+    if (!apps.length) {
+      throw new CommandError('WORKSPACE_EMPTY', `${WORKSPACE_FILENAME} does not list any apps`);
+    }
+    for (const app of apps) {
+      await assertAppHasConfig(workspaceDir, app);
+    }
+    return apps.map((app) => app.dir);
+  }
+
+  const wanted = selection.app!;
+  const match = apps.find((app) =>
+    app.name === wanted
+    || path.basename(app.dir) === wanted
+    || path.relative(workspaceDir, app.dir) === path.normalize(wanted)
+  );
+  if (!match) {
+    const suggestion = closestMatch(wanted, apps.map((app) => app.name));
+    throw new CommandError(
+      'APP_NOT_FOUND',
+      `No app named "${wanted}" in ${WORKSPACE_FILENAME}`
+        + (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+        + `\nAvailable apps: ${apps.map((app) => app.name).join(', ')}`
+    );
+  }
+
+  await assertAppHasConfig(workspaceDir, match);
+  return [match.dir];
+}
+
+async function assertAppHasConfig(workspaceDir: string, app: WorkspaceApp): Promise<void> {
+  const hasConfig = await fs.pathExists(path.join(app.dir, CONFIG_FILENAME))
+    || !!await findDynamicConfigPath(app.dir);
+  if (!hasConfig) {
+    throw new CommandError(
+      'APP_NOT_FOUND',
+      `${path.relative(workspaceDir, app.dir)} is listed in ${WORKSPACE_FILENAME} but has no ${CONFIG_FILENAME}`
+    );
+  }
+}
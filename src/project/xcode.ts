@@ -5,24 +5,96 @@
 
 import fs from 'fs-extra';
 import path from 'path';
+import { createHash } from 'crypto';
 import { createRequire } from 'module';
-import type { Platform } from './config.js';
+import type { IosSettings, MacosSettings, Platform, SwiftPackage, Variant } from './config.js';
+import {
+  resolveIosSettings,
+  resolveMacosSettings,
+  targetedDeviceFamily,
+} from './apple-settings.js';
+import { packagesForPlatform, swiftPackageRequirement } from './swift-packages.js';
+import { variantAppIconName, variantConfigurationName } from './variants.js';
 
 // Use createRequire for CommonJS module
 const require = createRequire(import.meta.url);
-const { build } = require('@bacons/xcode/json');
+const { build, parse } = require('@bacons/xcode/json');
 
 export interface XcodeProjectOptions {
   projectDir: string;
   projectName: string;
   bundleId: string;
+  version?: string; // MARKETING_VERSION
+  buildNumber?: number; // CURRENT_PROJECT_VERSION
   platforms: Platform[];
-  sourceFiles: string[];
-  infoPlistPath: string;
+  sourceFiles: string[]; // Compiled sources and headers, relative to the project
   entitlementsPath?: string;
-  minimumOsVersion?: string;
+  ios?: IosSettings;
+  macos?: MacosSettings;
   teamId?: string;
   frameworkPath?: string; // Path to Obsydian.xcframework
+  sharedSourceDirs?: string[]; // Workspace source directories shared between apps
+  variants?: Record<string, Variant>;
+  bridgingHeaderPath?: string; // SWIFT_OBJC_BRIDGING_HEADER, for apps with Swift sources
+  resources?: XcodeResource[];
+  swiftPackages?: SwiftPackage[];
+}
+
+/**
+ * A file or folder copied into the app bundle
+ */
+export interface XcodeResource {
+  path: string; // Relative to the project
+  // Folder reference: the folder is copied with everything in it (e.g. en.lproj)
+  folder?: boolean;
+  // Subfolder of the bundle's resources to copy into (default: the top level)
+  destination?: string;
+}
+
+const SWIFT_VERSION = '5.0';
+
+const COMPILED_EXTENSIONS = new Set(['.m', '.mm', '.c', '.cpp', '.cc', '.swift']);
+const REFERENCED_EXTENSIONS = new Set([...COMPILED_EXTENSIONS, '.h', '.hpp']);
+
+/**
+ * Whether a file goes into the Sources build phase
+ */
+export function isCompiledSourceFile(filePath: string): boolean {
+  return COMPILED_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Whether a file belongs in the project's source groups: compiled sources and headers
+ */
+export function isSourceFile(filePath: string): boolean {
+  return REFERENCED_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * The Objective-C bridging header among a project's files (named <Name>-Bridging-Header.h, as Xcode does)
+ */
+export function findBridgingHeader(files: string[]): string | undefined {
+  return files.find((file) => file.endsWith('-Bridging-Header.h'));
+}
+
+/**
+ * List source files under a directory, relative to it
+ */
+async function collectSourceFiles(dir: string, prefix = ''): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith('.')) continue;
+    const relativePath = path.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await collectSourceFiles(dir, relativePath));
+    } else if (REFERENCED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
 }
 
 /**
@@ -38,145 +110,212 @@ function getFileType(filename: string): string {
     case '.swift': return 'sourcecode.swift';
     case '.h': return 'sourcecode.c.h';
     case '.hpp': return 'sourcecode.cpp.h';
+    case '.json': return 'text.json';
+    case '.plist': return 'text.plist.xml';
+    case '.strings': return 'text.plist.strings';
+    case '.png': return 'image.png';
+    case '.jpg': case '.jpeg': return 'image.jpeg';
+    case '.wav': return 'audio.wav';
+    case '.mp3': return 'audio.mp3';
+    case '.ttf': case '.otf': case '.ttc': return 'file';
+    case '.xcassets': return 'folder.assetcatalog';
     default: return 'text';
   }
 }
 
+type ApplePlatform = 'macos' | 'ios';
+
+const PLATFORM_TARGET_SUFFIXES: Record<ApplePlatform, string> = {
+  macos: 'macOS',
+  ios: 'iOS',
+};
+
+function applePlatforms(platforms: Platform[]): ApplePlatform[] {
+  return platforms.filter((platform): platform is ApplePlatform => platform in PLATFORM_TARGET_SUFFIXES);
+}
+
 /**
- * Generate an Xcode project for the app
+ * Name of the app target, and of its shared scheme, for a platform.
+ * Single-platform projects keep the project name; projects with both platforms get one target each.
  */
-export async function generateXcodeProject(options: XcodeProjectOptions): Promise<string> {
+export function appTargetName(projectName: string, platform: ApplePlatform, platforms: Platform[]): string {
+  return applePlatforms(platforms).length > 1 ? `${projectName}-${PLATFORM_TARGET_SUFFIXES[platform]}` : projectName;
+}
+
+/**
+ * Info.plist of the app target for a platform.
+ * Projects with both platforms get one per target, since keys such as NSPrincipalClass or LSRequiresIPhoneOS only belong on one.
+ */
+export function infoPlistName(platform: ApplePlatform, platforms: Platform[]): string {
+  return applePlatforms(platforms).length > 1 ? `Info-${PLATFORM_TARGET_SUFFIXES[platform]}.plist` : 'Info.plist';
+}
+
+/**
+ * The shared scheme that builds the app for a platform.
+ * Projects generated before there was a target per platform only have a scheme named after the project.
+ */
+export async function findAppScheme(projectDir: string, projectName: string, platform: Platform): Promise<string> {
+  const suffix = PLATFORM_TARGET_SUFFIXES[platform as ApplePlatform];
+  if (!suffix) return projectName;
+
+  const platformScheme = `${projectName}-${suffix}`;
+  const schemePath = path.join(projectDir, `${projectName}.xcodeproj`, 'xcshareddata', 'xcschemes', `${platformScheme}.xcscheme`);
+  return await fs.pathExists(schemePath) ? platformScheme : projectName;
+}
+
+/**
+ * ID for a pbxproj object, derived from its role and path rather than random,
+ * so regenerating an unchanged project gives a byte-identical project.pbxproj
+ */
+function objectId(...role: string[]): string {
+  return createHash('sha256').update(role.join('\0')).digest('hex').slice(0, 24).toUpperCase();
+}
+
+interface CreatedXcodeProject {
+  // project.pbxproj as JSON
+  projectJson: any;
+  targets: Array<{ name: string; uuid: string }>;
+}
+
+/**
+ * Build the project for the app in memory, with one app target per platform
+ */
+async function createXcodeProject(options: XcodeProjectOptions): Promise<CreatedXcodeProject> {
   const {
     projectDir,
     projectName,
     bundleId,
+    version,
+    buildNumber,
     sourceFiles,
-    infoPlistPath,
-    minimumOsVersion = '14.0',
     teamId = '',
   } = options;
+  const platforms = applePlatforms(options.platforms);
+  const ios = resolveIosSettings(options.ios);
+  const macos = resolveMacosSettings(options.macos);
 
-  // Create .xcodeproj directory
-  const xcodeProjectDir = path.join(projectDir, `${projectName}.xcodeproj`);
-  await fs.ensureDir(xcodeProjectDir);
+  const rootObjectUUID = objectId('PBXProject');
+  const mainGroupUUID = objectId('PBXGroup', 'main');
+  const productsGroupUUID = objectId('PBXGroup', 'Products');
+  const frameworksGroupUUID = objectId('PBXGroup', 'Frameworks');
+  const projectConfigListUUID = objectId('XCConfigurationList');
+  const projectDebugConfigUUID = objectId('XCBuildConfiguration', 'Debug');
+  const projectReleaseConfigUUID = objectId('XCBuildConfiguration', 'Release');
 
-  // Generate UUIDs
-  const generateUUID = () => {
-    return (
-      Math.random().toString(16).substring(2, 10) +
-      Math.random().toString(16).substring(2, 10)
-    ).toUpperCase().slice(0, 24);
-  };
-
-  const rootObjectUUID = generateUUID();
-  const mainGroupUUID = generateUUID();
-  const productsGroupUUID = generateUUID();
-  const frameworksGroupUUID = generateUUID();
-  const targetUUID = generateUUID();
-  const targetConfigListUUID = generateUUID();
-  const projectConfigListUUID = generateUUID();
-  const debugConfigUUID = generateUUID();
-  const releaseConfigUUID = generateUUID();
-  const projectDebugConfigUUID = generateUUID();
-  const projectReleaseConfigUUID = generateUUID();
-  const sourcesPhaseUUID = generateUUID();
-  const frameworksPhaseUUID = generateUUID();
-  const resourcesPhaseUUID = generateUUID();
-  const productRefUUID = generateUUID();
-  const assetsCatalogBuildUUID = generateUUID();
-
-  // Create file references for source files
+  // File references are shared by all targets; build files and build phases belong to one target
   const fileRefs: Record<string, any> = {};
   const buildFiles: Record<string, any> = {};
-  const sourceBuildFileUUIDs: string[] = [];
+  const compiledFileRefUUIDs: string[] = [];
   const mainGroupChildren: string[] = [];
-  
-  // Framework references
-  const cocoaFrameworkRefUUID = generateUUID();
-  const cocoaFrameworkBuildUUID = generateUUID();
-  
+
   // Framework is REQUIRED - Obsydian CLI only supports framework-based apps
   if (!options.frameworkPath) {
     throw new Error('Framework path is required. Obsydian CLI only supports framework-based apps.');
   }
-  
-  // Obsydian framework references (required)
-  const obsydianFrameworkRefUUID = generateUUID();
-  const obsydianFrameworkBuildUUID = generateUUID();
-  const frameworkBuildFileUUIDs: string[] = [cocoaFrameworkBuildUUID, obsydianFrameworkBuildUUID];
-  
-  // Calculate relative path from project directory
+
+  // Obsydian framework reference (required), relative to the project directory
   const frameworkRelativePath = path.relative(projectDir, options.frameworkPath);
-  
+  const obsydianFrameworkRefUUID = objectId('PBXFileReference', frameworkRelativePath);
+
   fileRefs[obsydianFrameworkRefUUID] = {
     isa: 'PBXFileReference',
     lastKnownFileType: 'wrapper.xcframework',
     path: frameworkRelativePath,
     sourceTree: '<group>',
   };
-  
-  buildFiles[obsydianFrameworkBuildUUID] = {
-    isa: 'PBXBuildFile',
-    fileRef: obsydianFrameworkRefUUID,
-    settings: {
-      ATTRIBUTES: ['CodeSignOnCopy', 'RemoveHeadersOnCopy'],
-    },
+
+  // Groups mirror the folders files are in, keyed by folder path relative to the project
+  const folderGroups: Record<string, any> = {};
+  const folderGroupChildren = new Map<string, string[]>([['', mainGroupChildren]]);
+  const parentDir = (filePath: string) => (path.dirname(filePath) === '.' ? '' : path.dirname(filePath));
+
+  const ensureFolderGroup = (dir: string): string[] => {
+    const existing = folderGroupChildren.get(dir);
+    if (existing) return existing;
+
+    const children: string[] = [];
+    const groupUUID = objectId('PBXGroup', 'folder', dir);
+    ensureFolderGroup(parentDir(dir)).push(groupUUID);
+    folderGroups[groupUUID] = {
+      isa: 'PBXGroup',
+      children,
+      path: path.basename(dir),
+      sourceTree: '<group>',
+    };
+    folderGroupChildren.set(dir, children);
+    return children;
   };
-  
-  // Determine primary platform early (used throughout)
-  const primaryPlatform = options.platforms.includes('ios') ? 'ios' : 'macos';
-  const isIOS = primaryPlatform === 'ios';
-  
-  // For both iOS and macOS, we need an embed frameworks phase to copy XCFramework into app bundle
-  let embedFrameworksPhaseUUID: string | undefined;
-  let embedFrameworksBuildFileUUID: string | undefined;
-  
-  // Both iOS and macOS need frameworks embedded in the app bundle
-  embedFrameworksPhaseUUID = generateUUID();
-  embedFrameworksBuildFileUUID = generateUUID();
-  
-  buildFiles[embedFrameworksBuildFileUUID] = {
-    isa: 'PBXBuildFile',
-    fileRef: obsydianFrameworkRefUUID,
-    settings: {
-      ATTRIBUTES: ['CodeSignOnCopy', 'RemoveHeadersOnCopy'],
-    },
+
+  // Reference a file in the group for its folder; a file that is both a source and a resource is referenced once
+  const addFileRef = (filePath: string, lastKnownFileType = getFileType(filePath)): string => {
+    const fileRefUUID = objectId('PBXFileReference', filePath);
+    if (!fileRefs[fileRefUUID]) {
+      fileRefs[fileRefUUID] = {
+        isa: 'PBXFileReference',
+        lastKnownFileType,
+        path: path.basename(filePath),
+        sourceTree: '<group>',
+      };
+      ensureFolderGroup(parentDir(filePath)).push(fileRefUUID);
+    }
+    return fileRefUUID;
   };
 
-  for (const filePath of sourceFiles) {
-    const fileRefUUID = generateUUID();
-    const buildFileUUID = generateUUID();
-    
-    fileRefs[fileRefUUID] = {
-      isa: 'PBXFileReference',
-      lastKnownFileType: getFileType(filePath),
-      path: filePath,
+  // Only compiled sources go into the Sources phase, not headers
+  const allSourceFiles: string[] = []; // The app's own sources and the shared workspace sources
+  const addSourceFile = (filePath: string) => {
+    allSourceFiles.push(filePath);
+    const fileRefUUID = addFileRef(filePath);
+    if (isCompiledSourceFile(filePath)) {
+      compiledFileRefUUIDs.push(fileRefUUID);
+    }
+  };
+
+  sourceFiles.forEach(addSourceFile);
+
+  // Shared workspace sources: one group per directory
+  const sharedRelativeDirs: string[] = [];
+  for (const sharedDir of options.sharedSourceDirs ?? []) {
+    if (!await fs.pathExists(sharedDir)) {
+      throw new Error(`Shared source directory not found: ${sharedDir}`);
+    }
+
+    const relativeDir = path.relative(projectDir, sharedDir);
+    const groupUUID = objectId('PBXGroup', 'folder', relativeDir);
+    const groupChildren: string[] = [];
+    sharedRelativeDirs.push(relativeDir);
+
+    folderGroups[groupUUID] = {
+      isa: 'PBXGroup',
+      children: groupChildren,
+      name: path.basename(sharedDir),
+      path: relativeDir,
       sourceTree: '<group>',
     };
-    
-    buildFiles[buildFileUUID] = {
-      isa: 'PBXBuildFile',
-      fileRef: fileRefUUID,
-    };
-    
-    sourceBuildFileUUIDs.push(buildFileUUID);
-    mainGroupChildren.push(fileRefUUID);
+    folderGroupChildren.set(relativeDir, groupChildren);
+    mainGroupChildren.push(groupUUID);
+
+    for (const filePath of await collectSourceFiles(sharedDir)) {
+      addSourceFile(path.join(relativeDir, filePath));
+    }
   }
 
-  // Info.plist reference
-  const infoPlistRefUUID = generateUUID();
-  fileRefs[infoPlistRefUUID] = {
-    isa: 'PBXFileReference',
-    lastKnownFileType: 'text.plist.xml',
-    path: infoPlistPath,
-    sourceTree: '<group>',
-  };
-  mainGroupChildren.push(infoPlistRefUUID);
+  // Info.plist references, one per platform when there are two targets
+  for (const infoPlistPath of new Set(platforms.map((platform) => infoPlistName(platform, options.platforms)))) {
+    const infoPlistRefUUID = objectId('PBXFileReference', infoPlistPath);
+    fileRefs[infoPlistRefUUID] = {
+      isa: 'PBXFileReference',
+      lastKnownFileType: 'text.plist.xml',
+      path: infoPlistPath,
+      sourceTree: '<group>',
+    };
+    mainGroupChildren.push(infoPlistRefUUID);
+  }
 
   // Entitlements reference (if provided)
   let entitlementsRefUUID: string | undefined;
   if (options.entitlementsPath) {
-    entitlementsRefUUID = generateUUID();
+    entitlementsRefUUID = objectId('PBXFileReference', options.entitlementsPath);
     fileRefs[entitlementsRefUUID] = {
       isa: 'PBXFileReference',
       lastKnownFileType: 'text.plist.entitlements',
@@ -187,7 +326,7 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
   }
 
   // Assets.xcassets reference (for app icon)
-  const assetsCatalogUUID = generateUUID();
+  const assetsCatalogUUID = objectId('PBXFileReference', 'Assets.xcassets');
   fileRefs[assetsCatalogUUID] = {
     isa: 'PBXFileReference',
     lastKnownFileType: 'folder.assetcatalog',
@@ -196,37 +335,38 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
   };
   mainGroupChildren.push(assetsCatalogUUID);
 
-  // Cocoa framework reference
-  fileRefs[cocoaFrameworkRefUUID] = {
-    isa: 'PBXFileReference',
-    lastKnownFileType: 'wrapper.framework',
-    name: 'Cocoa.framework',
-    path: 'System/Library/Frameworks/Cocoa.framework',
-    sourceTree: 'SDKROOT',
-  };
-
-  buildFiles[cocoaFrameworkBuildUUID] = {
-    isa: 'PBXBuildFile',
-    fileRef: cocoaFrameworkRefUUID,
-  };
-
-  // Assets catalog build file
-  buildFiles[assetsCatalogBuildUUID] = {
-    isa: 'PBXBuildFile',
-    fileRef: assetsCatalogUUID,
-  };
+  // Resources from the config: bundled at the top level by the Resources phase, or into a subfolder by a copy phase
+  const topLevelResourceUUIDs: string[] = [];
+  const resourceUUIDsByDestination = new Map<string, string[]>();
+  for (const resource of options.resources ?? []) {
+    const fileRefUUID = resource.folder ? addFileRef(resource.path, 'folder') : addFileRef(resource.path);
+    if (!resource.destination) {
+      topLevelResourceUUIDs.push(fileRefUUID);
+    } else {
+      const destinationUUIDs = resourceUUIDsByDestination.get(resource.destination) ?? [];
+      destinationUUIDs.push(fileRefUUID);
+      resourceUUIDsByDestination.set(resource.destination, destinationUUIDs);
+    }
+  }
 
-  // Product reference
-  fileRefs[productRefUUID] = {
-    isa: 'PBXFileReference',
-    explicitFileType: 'wrapper.application',
-    includeInIndex: 0,
-    path: `${projectName}.app`,
-    sourceTree: 'BUILT_PRODUCTS_DIR',
-  };
+  // System UI framework references (UIKit on iOS, Cocoa on macOS)
+  const uiFrameworkRefUUIDs: Partial<Record<ApplePlatform, string>> = {};
+  for (const platform of platforms) {
+    const uiFrameworkName = platform === 'ios' ? 'UIKit' : 'Cocoa';
+    const uiFrameworkRefUUID = objectId('PBXFileReference', 'SDKROOT', uiFrameworkName);
+    fileRefs[uiFrameworkRefUUID] = {
+      isa: 'PBXFileReference',
+      lastKnownFileType: 'wrapper.framework',
+      name: `${uiFrameworkName}.framework`,
+      path: `System/Library/Frameworks/${uiFrameworkName}.framework`,
+      sourceTree: 'SDKROOT',
+    };
+    uiFrameworkRefUUIDs[platform] = uiFrameworkRefUUID;
+  }
 
-  // Build settings for target
+  // Build settings shared by every app target
   const baseBuildSettings: Record<string, any> = {
+    APP_DISPLAY_NAME: projectName, // CFBundleDisplayName, overridden per variant
     ASSETCATALOG_COMPILER_APPICON_NAME: 'AppIcon',
     ASSETCATALOG_COMPILER_GLOBAL_ACCENT_COLOR_NAME: '',
     CLANG_CXX_LANGUAGE_STANDARD: 'gnu++20',
@@ -234,125 +374,85 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
     CLANG_ENABLE_OBJC_ARC: 'YES',
     CLANG_ENABLE_OBJC_WEAK: 'YES',
     CODE_SIGN_STYLE: 'Automatic',
-    CURRENT_PROJECT_VERSION: '1',
+    CURRENT_PROJECT_VERSION: String(buildNumber ?? 1),
     DEVELOPMENT_TEAM: teamId,
     GENERATE_INFOPLIST_FILE: 'NO',
-    INFOPLIST_FILE: infoPlistPath,
-    MARKETING_VERSION: '1.0',
+    MARKETING_VERSION: version ?? '1.0.0',
     PRODUCT_BUNDLE_IDENTIFIER: bundleId,
-    PRODUCT_NAME: '$(TARGET_NAME)',
+    // Every platform target builds <projectName>.app
+    PRODUCT_NAME: projectName,
     SWIFT_EMIT_LOC_STRINGS: 'YES',
   };
-  
-  // Platform-specific settings
-  if (isIOS) {
-    baseBuildSettings.INFOPLIST_KEY_UIApplicationSupportsIndirectInputEvents = 'YES';
-    baseBuildSettings.INFOPLIST_KEY_UILaunchStoryboardName = 'LaunchScreen';
-    baseBuildSettings.INFOPLIST_KEY_UISupportedInterfaceOrientations = [
-      'UIInterfaceOrientationPortrait',
-      'UIInterfaceOrientationLandscapeLeft',
-      'UIInterfaceOrientationLandscapeRight',
-    ];
-    baseBuildSettings.INFOPLIST_KEY_UISupportedInterfaceOrientations_iPad = [
-      'UIInterfaceOrientationPortrait',
-      'UIInterfaceOrientationPortraitUpsideDown',
-      'UIInterfaceOrientationLandscapeLeft',
-      'UIInterfaceOrientationLandscapeRight',
-    ];
-    baseBuildSettings.IPHONEOS_DEPLOYMENT_TARGET = minimumOsVersion;
-    baseBuildSettings.LD_RUNPATH_SEARCH_PATHS = '$(inherited) @executable_path/Frameworks';
-    baseBuildSettings.SDKROOT = 'iphoneos';
-    baseBuildSettings.TARGETED_DEVICE_FAMILY = '1,2'; // iPhone and iPad
-  } else {
-    baseBuildSettings.COMBINE_HIDPI_IMAGES = 'YES';
-    baseBuildSettings.INFOPLIST_KEY_NSMainNibFile = '';
-    baseBuildSettings.INFOPLIST_KEY_NSPrincipalClass = 'NSApplication';
-    baseBuildSettings.LD_RUNPATH_SEARCH_PATHS = '$(inherited) @executable_path/../Frameworks';
-    baseBuildSettings.MACOSX_DEPLOYMENT_TARGET = minimumOsVersion;
-    baseBuildSettings.SDKROOT = 'macosx';
-    // Framework only supports arm64, so only build for active architecture
-    baseBuildSettings.ONLY_ACTIVE_ARCH = 'YES';
-    baseBuildSettings.ARCHS = 'arm64';
-    baseBuildSettings.EXCLUDED_ARCHS = 'x86_64';
-  }
-  
-  // Framework is REQUIRED - always add framework search paths and linking
-  if (!options.frameworkPath) {
-    throw new Error('Framework path is required. Obsydian CLI only supports framework-based apps.');
-  }
-  
+
   const frameworkDir = path.dirname(options.frameworkPath);
   const frameworkRelativeDir = path.relative(projectDir, frameworkDir);
-  
+
   // Framework search paths - Xcode will resolve the correct platform slice
   baseBuildSettings.FRAMEWORK_SEARCH_PATHS = [
     '$(inherited)',
     `"${frameworkRelativeDir}"`,
   ];
-  
-  // For XCFrameworks, add header search paths for the specific platform
-  // We need to add paths for both possible architectures
-  const frameworkName = path.basename(options.frameworkPath, '.xcframework');
-  
-  // Add macOS headers path (primary for macOS builds)
-  const macosHeadersPath = path.join(frameworkRelativeDir, frameworkName + '.xcframework', 'macos-arm64', frameworkName + '.framework', 'Headers');
-  
-  baseBuildSettings.HEADER_SEARCH_PATHS = [
-    '$(inherited)',
-    `"${macosHeadersPath}"`,
-  ];
-  
-  // Also set up for iOS if iOS is in platforms
-  if (options.platforms.includes('ios')) {
-    const iosHeadersPath = path.join(frameworkRelativeDir, frameworkName + '.xcframework', 'ios-arm64', frameworkName + '.framework', 'Headers');
-    baseBuildSettings.HEADER_SEARCH_PATHS.push(`"${iosHeadersPath}"`);
-  }
-  
+
   baseBuildSettings.OTHER_LDFLAGS = [
     '$(inherited)',
     '-framework',
     'Obsydian',
   ];
-  
-  // iOS requires framework embedding
-  if (isIOS) {
-    baseBuildSettings.ALWAYS_EMBED_SWIFT_STANDARD_LIBRARIES = 'NO';
-    // Framework will be embedded via Copy Files phase
-  }
 
-  // Add entitlements if provided
-  if (options.entitlementsPath) {
-    baseBuildSettings.CODE_SIGN_ENTITLEMENTS = options.entitlementsPath;
+  // Swift sources reach the Obsydian C++ API through Objective-C++ wrappers named in the bridging header
+  // (the Swift may also be in a shared workspace directory, along with its bridging header)
+  const hasSwiftSources = allSourceFiles.some((filePath) => path.extname(filePath).toLowerCase() === '.swift');
+  if (hasSwiftSources) {
+    baseBuildSettings.SWIFT_VERSION = SWIFT_VERSION;
+    const bridgingHeaderPath = options.bridgingHeaderPath ?? findBridgingHeader(allSourceFiles);
+    if (bridgingHeaderPath) {
+      baseBuildSettings.SWIFT_OBJC_BRIDGING_HEADER = bridgingHeaderPath;
+    }
   }
 
-  // Build configurations for target
-  const debugConfig = {
-    isa: 'XCBuildConfiguration',
-    name: 'Debug',
-    buildSettings: {
-      ...baseBuildSettings,
-      DEBUG_INFORMATION_FORMAT: 'dwarf',
-      GCC_DYNAMIC_NO_PIC: 'NO',
-      GCC_OPTIMIZATION_LEVEL: '0',
-      GCC_PREPROCESSOR_DEFINITIONS: ['DEBUG=1', '$(inherited)'],
-      MTL_ENABLE_DEBUG_INFO: 'INCLUDE_SOURCE',
-      MTL_FAST_MATH: 'YES',
-    },
-  };
+  // For XCFrameworks, add the header search path of the platform's slice
+  const frameworkName = path.basename(options.frameworkPath, '.xcframework');
+  const frameworkHeadersPath = (slice: string) =>
+    path.join(frameworkRelativeDir, frameworkName + '.xcframework', slice, frameworkName + '.framework', 'Headers');
 
-  const releaseConfig = {
-    isa: 'XCBuildConfiguration',
-    name: 'Release',
-    buildSettings: {
-      ...baseBuildSettings,
-      COPY_PHASE_STRIP: 'NO',
-      DEBUG_INFORMATION_FORMAT: 'dwarf-with-dsym',
-      ENABLE_NS_ASSERTIONS: 'NO',
-      MTL_ENABLE_DEBUG_INFO: 'NO',
-      MTL_FAST_MATH: 'YES',
-      // For macOS, framework only supports arm64, so only build active arch even in Release
-      ...(primaryPlatform === 'macos' ? { ONLY_ACTIVE_ARCH: 'YES' } : {}),
-    },
+  /**
+   * Build settings that differ between the macOS and iOS targets
+   */
+  const platformBuildSettings = (platform: ApplePlatform): Record<string, any> => {
+    const settings: Record<string, any> = {
+      INFOPLIST_FILE: infoPlistName(platform, options.platforms),
+    };
+
+    if (platform === 'ios') {
+      settings.IPHONEOS_DEPLOYMENT_TARGET = ios.deploymentTarget;
+      settings.LD_RUNPATH_SEARCH_PATHS = '$(inherited) @executable_path/Frameworks';
+      settings.SDKROOT = 'iphoneos';
+      settings.TARGETED_DEVICE_FAMILY = targetedDeviceFamily(ios.deviceFamily); // 1 = iPhone, 2 = iPad
+      // iOS requires framework embedding; the framework is embedded via Copy Files phase
+      settings.ALWAYS_EMBED_SWIFT_STANDARD_LIBRARIES = 'NO';
+    } else {
+      settings.COMBINE_HIDPI_IMAGES = 'YES';
+      settings.LD_RUNPATH_SEARCH_PATHS = '$(inherited) @executable_path/../Frameworks';
+      settings.MACOSX_DEPLOYMENT_TARGET = macos.deploymentTarget;
+      settings.SDKROOT = 'macosx';
+      // Framework only supports arm64, so only build for active architecture
+      settings.ONLY_ACTIVE_ARCH = 'YES';
+      settings.ARCHS = 'arm64';
+      settings.EXCLUDED_ARCHS = 'x86_64';
+      // Entitlements are macOS-only (App Sandbox)
+      if (options.entitlementsPath) {
+        settings.CODE_SIGN_ENTITLEMENTS = options.entitlementsPath;
+      }
+    }
+
+    settings.HEADER_SEARCH_PATHS = [
+      '$(inherited)',
+      `"${frameworkHeadersPath(platform === 'ios' ? 'ios-arm64' : 'macos-arm64')}"`,
+      // Shared workspace sources can be included by path from the app
+      ...sharedRelativeDirs.map((relativeDir) => `"$(SRCROOT)/${relativeDir}"`),
+    ];
+
+    return settings;
   };
 
   // Project-level build settings
@@ -399,15 +499,18 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
     MTL_ENABLE_DEBUG_INFO: 'INCLUDE_SOURCE',
     MTL_FAST_MATH: 'YES',
   };
-  
-  // Platform-specific project settings
-  if (options.platforms.includes('ios')) {
-    projectBuildSettings.IPHONEOS_DEPLOYMENT_TARGET = minimumOsVersion;
+
+  // Platform-specific project settings (each target sets its own SDKROOT)
+  const macosOnly = !platforms.includes('ios');
+  if (platforms.includes('ios')) {
+    projectBuildSettings.IPHONEOS_DEPLOYMENT_TARGET = ios.deploymentTarget;
     projectBuildSettings.SDKROOT = 'iphoneos';
   } else {
-    projectBuildSettings.MACOSX_DEPLOYMENT_TARGET = minimumOsVersion;
     projectBuildSettings.SDKROOT = 'macosx';
   }
+  if (platforms.includes('macos')) {
+    projectBuildSettings.MACOSX_DEPLOYMENT_TARGET = macos.deploymentTarget;
+  }
 
   const projectDebugConfig = {
     isa: 'XCBuildConfiguration',
@@ -420,7 +523,7 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
       GCC_OPTIMIZATION_LEVEL: '0',
       GCC_PREPROCESSOR_DEFINITIONS: ['DEBUG=1', '$(inherited)'],
       ONLY_ACTIVE_ARCH: 'YES',
-      ...(primaryPlatform === 'macos' ? { ARCHS: 'arm64', EXCLUDED_ARCHS: 'x86_64' } : {}),
+      ...(macosOnly ? { ARCHS: 'arm64', EXCLUDED_ARCHS: 'x86_64' } : {}),
     },
   };
 
@@ -432,79 +535,255 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
       DEBUG_INFORMATION_FORMAT: 'dwarf-with-dsym',
       ENABLE_NS_ASSERTIONS: 'NO',
       VALIDATE_PRODUCT: 'YES',
-      ...(primaryPlatform === 'macos' ? { ARCHS: 'arm64', EXCLUDED_ARCHS: 'x86_64' } : {}),
+      ...(macosOnly ? { ARCHS: 'arm64', EXCLUDED_ARCHS: 'x86_64' } : {}),
     },
   };
 
-  // Build phases
-  const sourcesPhase = {
-    isa: 'PBXSourcesBuildPhase',
-    buildActionMask: 2147483647,
-    files: sourceBuildFileUUIDs,
-    runOnlyForDeploymentPostprocessing: 0,
-  };
+  const variants = Object.entries(options.variants ?? {});
 
-  const frameworksPhase = {
-    isa: 'PBXFrameworksBuildPhase',
-    buildActionMask: 2147483647,
-    files: frameworkBuildFileUUIDs,
-    runOnlyForDeploymentPostprocessing: 0,
-  };
+  // Variant build configurations: a Debug and Release copy per variant (e.g. Debug-staging)
+  const variantProjectConfigs: Record<string, any> = {};
+  const variantProjectConfigUUIDs: string[] = [];
+  for (const [variantName] of variants) {
+    for (const projectBase of [projectDebugConfig, projectReleaseConfig]) {
+      const projectConfigUUID = objectId('XCBuildConfiguration', variantConfigurationName(projectBase.name, variantName));
+      variantProjectConfigs[projectConfigUUID] = {
+        ...projectBase,
+        name: variantConfigurationName(projectBase.name, variantName),
+      };
+      variantProjectConfigUUIDs.push(projectConfigUUID);
+    }
+  }
 
-  const resourcesPhase = {
-    isa: 'PBXResourcesBuildPhase',
-    buildActionMask: 2147483647,
-    files: [assetsCatalogBuildUUID],
-    runOnlyForDeploymentPostprocessing: 0,
-  };
-  
-  // Embed Frameworks phase (required for XCFrameworks on both iOS and macOS)
-  let embedFrameworksPhase: any = undefined;
-  if (embedFrameworksPhaseUUID && embedFrameworksBuildFileUUID) {
-    embedFrameworksPhase = {
+  // Swift packages are referenced once by the project; each target depends on the products it links
+  const packageObjects: Record<string, any> = {};
+  const packageRefUUIDs = new Map<string, string>();
+  for (const swiftPackage of options.swiftPackages ?? []) {
+    const packageRefUUID = objectId('XCRemoteSwiftPackageReference', swiftPackage.url);
+    packageObjects[packageRefUUID] = {
+      isa: 'XCRemoteSwiftPackageReference',
+      repositoryURL: swiftPackage.url,
+      requirement: swiftPackageRequirement(swiftPackage),
+    };
+    packageRefUUIDs.set(swiftPackage.url, packageRefUUID);
+  }
+
+  // App targets, one per platform
+  const targetObjects: Record<string, any> = {};
+  const targets: Array<{ name: string; uuid: string }> = [];
+  const productRefUUIDs: string[] = [];
+
+  for (const platform of platforms) {
+    const targetName = appTargetName(projectName, platform, platforms);
+    const targetUUID = objectId('PBXNativeTarget', targetName);
+    const targetConfigListUUID = objectId('XCConfigurationList', targetName);
+    const debugConfigUUID = objectId('XCBuildConfiguration', targetName, 'Debug');
+    const releaseConfigUUID = objectId('XCBuildConfiguration', targetName, 'Release');
+    const sourcesPhaseUUID = objectId('PBXSourcesBuildPhase', targetName);
+    const frameworksPhaseUUID = objectId('PBXFrameworksBuildPhase', targetName);
+    const resourcesPhaseUUID = objectId('PBXResourcesBuildPhase', targetName);
+    const embedFrameworksPhaseUUID = objectId('PBXCopyFilesBuildPhase', targetName, 'Embed Frameworks');
+    const productRefUUID = objectId('PBXFileReference', 'product', targetName);
+
+    const targetBuildSettings = { ...baseBuildSettings, ...platformBuildSettings(platform) };
+
+    // Build configurations for target
+    const debugConfig = {
+      isa: 'XCBuildConfiguration',
+      name: 'Debug',
+      buildSettings: {
+        ...targetBuildSettings,
+        DEBUG_INFORMATION_FORMAT: 'dwarf',
+        GCC_DYNAMIC_NO_PIC: 'NO',
+        GCC_OPTIMIZATION_LEVEL: '0',
+        GCC_PREPROCESSOR_DEFINITIONS: ['DEBUG=1', '$(inherited)'],
+        MTL_ENABLE_DEBUG_INFO: 'INCLUDE_SOURCE',
+        MTL_FAST_MATH: 'YES',
+        ...(hasSwiftSources ? { SWIFT_ACTIVE_COMPILATION_CONDITIONS: 'DEBUG', SWIFT_OPTIMIZATION_LEVEL: '-Onone' } : {}),
+      },
+    };
+
+    const releaseConfig = {
+      isa: 'XCBuildConfiguration',
+      name: 'Release',
+      buildSettings: {
+        ...targetBuildSettings,
+        COPY_PHASE_STRIP: 'NO',
+        DEBUG_INFORMATION_FORMAT: 'dwarf-with-dsym',
+        ENABLE_NS_ASSERTIONS: 'NO',
+        MTL_ENABLE_DEBUG_INFO: 'NO',
+        MTL_FAST_MATH: 'YES',
+        // For macOS, framework only supports arm64, so only build active arch even in Release
+        ...(platform === 'macos' ? { ONLY_ACTIVE_ARCH: 'YES' } : {}),
+        ...(hasSwiftSources ? { SWIFT_COMPILATION_MODE: 'wholemodule', SWIFT_OPTIMIZATION_LEVEL: '-O' } : {}),
+      },
+    };
+
+    const variantTargetConfigUUIDs: string[] = [];
+    for (const [variantName, variant] of variants) {
+      for (const targetBase of [debugConfig, releaseConfig]) {
+        const targetConfigUUID = objectId('XCBuildConfiguration', targetName, variantConfigurationName(targetBase.name, variantName));
+        targetObjects[targetConfigUUID] = {
+          isa: 'XCBuildConfiguration',
+          name: variantConfigurationName(targetBase.name, variantName),
+          buildSettings: {
+            ...targetBase.buildSettings,
+            APP_DISPLAY_NAME: variant.displayName ?? projectName,
+            ASSETCATALOG_COMPILER_APPICON_NAME: variantAppIconName(variantName, variant),
+            GCC_PREPROCESSOR_DEFINITIONS: [
+              ...(targetBase === debugConfig ? ['DEBUG=1'] : []),
+              ...(variant.defines ?? []),
+              '$(inherited)',
+            ],
+            PRODUCT_BUNDLE_IDENTIFIER: bundleId + (variant.bundleIdSuffix ?? ''),
+            // Swift conditions are names only, so API_ENV=staging becomes API_ENV
+            ...(hasSwiftSources ? {
+              SWIFT_ACTIVE_COMPILATION_CONDITIONS: [
+                ...(targetBase === debugConfig ? ['DEBUG'] : []),
+                ...(variant.defines ?? []).map((define) => define.split('=')[0]),
+                '$(inherited)',
+              ],
+            } : {}),
+          },
+        };
+        variantTargetConfigUUIDs.push(targetConfigUUID);
+      }
+    }
+
+    // Build files: a file in several targets (or phases) needs a build file per target and phase
+    const addBuildFile = (phaseUUID: string, fileRef: string, settings?: Record<string, any>): string => {
+      const buildFileUUID = objectId('PBXBuildFile', phaseUUID, fileRef);
+      buildFiles[buildFileUUID] = {
+        isa: 'PBXBuildFile',
+        fileRef,
+        ...(settings ? { settings } : {}),
+      };
+      return buildFileUUID;
+    };
+    const frameworkAttributes = { ATTRIBUTES: ['CodeSignOnCopy', 'RemoveHeadersOnCopy'] };
+
+    // Build phases
+    targetObjects[sourcesPhaseUUID] = {
+      isa: 'PBXSourcesBuildPhase',
+      buildActionMask: 2147483647,
+      files: compiledFileRefUUIDs.map((fileRef) => addBuildFile(sourcesPhaseUUID, fileRef)),
+      runOnlyForDeploymentPostprocessing: 0,
+    };
+
+    // Swift package products are linked with the frameworks
+    const productDependencyUUIDs: string[] = [];
+    const productBuildFileUUIDs: string[] = [];
+    for (const swiftPackage of packagesForPlatform(options.swiftPackages ?? [], platform)) {
+      for (const productName of swiftPackage.products) {
+        const productDependencyUUID = objectId('XCSwiftPackageProductDependency', targetName, swiftPackage.url, productName);
+        targetObjects[productDependencyUUID] = {
+          isa: 'XCSwiftPackageProductDependency',
+          package: packageRefUUIDs.get(swiftPackage.url),
+          productName,
+        };
+        productDependencyUUIDs.push(productDependencyUUID);
+
+        const buildFileUUID = objectId('PBXBuildFile', frameworksPhaseUUID, productDependencyUUID);
+        buildFiles[buildFileUUID] = { isa: 'PBXBuildFile', productRef: productDependencyUUID };
+        productBuildFileUUIDs.push(buildFileUUID);
+      }
+    }
+
+    targetObjects[frameworksPhaseUUID] = {
+      isa: 'PBXFrameworksBuildPhase',
+      buildActionMask: 2147483647,
+      files: [
+        addBuildFile(frameworksPhaseUUID, uiFrameworkRefUUIDs[platform]!),
+        addBuildFile(frameworksPhaseUUID, obsydianFrameworkRefUUID, frameworkAttributes),
+        ...productBuildFileUUIDs,
+      ],
+      runOnlyForDeploymentPostprocessing: 0,
+    };
+
+    targetObjects[resourcesPhaseUUID] = {
+      isa: 'PBXResourcesBuildPhase',
+      buildActionMask: 2147483647,
+      files: [assetsCatalogUUID, ...topLevelResourceUUIDs].map((fileRef) => addBuildFile(resourcesPhaseUUID, fileRef)),
+      runOnlyForDeploymentPostprocessing: 0,
+    };
+
+    // One Copy Files phase per resource destination
+    const copyResourcesPhaseUUIDs: string[] = [];
+    for (const [destination, fileRefUUIDs] of resourceUUIDsByDestination) {
+      const copyPhaseUUID = objectId('PBXCopyFilesBuildPhase', targetName, destination);
+      targetObjects[copyPhaseUUID] = {
+        isa: 'PBXCopyFilesBuildPhase',
+        buildActionMask: 2147483647,
+        dstPath: destination,
+        dstSubfolderSpec: 7, // 7 = Resources folder
+        files: fileRefUUIDs.map((fileRef) => addBuildFile(copyPhaseUUID, fileRef)),
+        name: `Copy ${destination}`,
+        runOnlyForDeploymentPostprocessing: 0,
+      };
+      copyResourcesPhaseUUIDs.push(copyPhaseUUID);
+    }
+
+    // Embed Frameworks phase (required for XCFrameworks on both iOS and macOS)
+    targetObjects[embedFrameworksPhaseUUID] = {
       isa: 'PBXCopyFilesBuildPhase',
       buildActionMask: 2147483647,
       dstPath: '',
-      dstSubfolderSpec: isIOS ? 10 : 10, // 10 = Frameworks folder for both platforms
-      files: [embedFrameworksBuildFileUUID],
+      dstSubfolderSpec: 10, // 10 = Frameworks folder for both platforms
+      files: [addBuildFile(embedFrameworksPhaseUUID, obsydianFrameworkRefUUID, frameworkAttributes)],
       name: 'Embed Frameworks',
       runOnlyForDeploymentPostprocessing: 0,
     };
+
+    // Configuration list
+    targetObjects[targetConfigListUUID] = {
+      isa: 'XCConfigurationList',
+      buildConfigurations: [debugConfigUUID, releaseConfigUUID, ...variantTargetConfigUUIDs],
+      defaultConfigurationIsVisible: 0,
+      defaultConfigurationName: 'Release',
+    };
+    targetObjects[debugConfigUUID] = debugConfig;
+    targetObjects[releaseConfigUUID] = releaseConfig;
+
+    // Product reference
+    fileRefs[productRefUUID] = {
+      isa: 'PBXFileReference',
+      explicitFileType: 'wrapper.application',
+      includeInIndex: 0,
+      path: `${projectName}.app`,
+      sourceTree: 'BUILT_PRODUCTS_DIR',
+    };
+    productRefUUIDs.push(productRefUUID);
+
+    // Native target - include embed phase for both iOS and macOS
+    targetObjects[targetUUID] = {
+      isa: 'PBXNativeTarget',
+      buildConfigurationList: targetConfigListUUID,
+      buildPhases: [
+        sourcesPhaseUUID,
+        frameworksPhaseUUID,
+        resourcesPhaseUUID,
+        ...copyResourcesPhaseUUIDs,
+        embedFrameworksPhaseUUID,
+      ],
+      buildRules: [],
+      dependencies: [],
+      name: targetName,
+      ...(productDependencyUUIDs.length ? { packageProductDependencies: productDependencyUUIDs } : {}),
+      productName: projectName,
+      productReference: productRefUUID,
+      productType: 'com.apple.product-type.application',
+    };
+    targets.push({ name: targetName, uuid: targetUUID });
   }
 
   // Configuration lists
-  const targetConfigList = {
-    isa: 'XCConfigurationList',
-    buildConfigurations: [debugConfigUUID, releaseConfigUUID],
-    defaultConfigurationIsVisible: 0,
-    defaultConfigurationName: 'Release',
-  };
-
   const projectConfigList = {
     isa: 'XCConfigurationList',
-    buildConfigurations: [projectDebugConfigUUID, projectReleaseConfigUUID],
+    buildConfigurations: [projectDebugConfigUUID, projectReleaseConfigUUID, ...variantProjectConfigUUIDs],
     defaultConfigurationIsVisible: 0,
     defaultConfigurationName: 'Release',
   };
 
-  // Native target - include embed phase for both iOS and macOS
-  const buildPhases = [sourcesPhaseUUID, frameworksPhaseUUID, resourcesPhaseUUID];
-  if (embedFrameworksPhaseUUID) {
-    buildPhases.push(embedFrameworksPhaseUUID);
-  }
-  
-  const nativeTarget = {
-    isa: 'PBXNativeTarget',
-    buildConfigurationList: targetConfigListUUID,
-    buildPhases,
-    buildRules: [],
-    dependencies: [],
-    name: projectName,
-    productName: projectName,
-    productReference: productRefUUID,
-    productType: 'com.apple.product-type.application',
-  };
-
   // Groups
   const mainGroup = {
     isa: 'PBXGroup',
@@ -514,14 +793,14 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
 
   const productsGroup = {
     isa: 'PBXGroup',
-    children: [productRefUUID],
+    children: productRefUUIDs,
     name: 'Products',
     sourceTree: '<group>',
   };
 
   // Framework is always required, so always include it
-  const frameworksGroupChildren = [cocoaFrameworkRefUUID, obsydianFrameworkRefUUID];
-  
+  const frameworksGroupChildren = [...Object.values(uiFrameworkRefUUIDs), obsydianFrameworkRefUUID];
+
   const frameworksGroup = {
     isa: 'PBXGroup',
     children: frameworksGroupChildren,
@@ -535,11 +814,9 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
     attributes: {
       BuildIndependentTargetsInParallel: 1,
       LastUpgradeCheck: '1500',
-      TargetAttributes: {
-        [targetUUID]: {
-          CreatedOnToolsVersion: '15.0',
-        },
-      },
+      TargetAttributes: Object.fromEntries(targets.map((target) => [target.uuid, {
+        CreatedOnToolsVersion: '15.0',
+      }])),
     },
     buildConfigurationList: projectConfigListUUID,
     compatibilityVersion: 'Xcode 14.0',
@@ -547,10 +824,11 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
     hasScannedForEncodings: 0,
     knownRegions: ['en', 'Base'],
     mainGroup: mainGroupUUID,
+    ...(packageRefUUIDs.size ? { packageReferences: [...packageRefUUIDs.values()] } : {}),
     productRefGroup: productsGroupUUID,
     projectDirPath: '',
     projectRoot: '',
-    targets: [targetUUID],
+    targets: targets.map((target) => target.uuid),
   };
 
   // Assemble all objects
@@ -559,27 +837,16 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
     [mainGroupUUID]: mainGroup,
     [productsGroupUUID]: productsGroup,
     [frameworksGroupUUID]: frameworksGroup,
-    [targetUUID]: nativeTarget,
-    [targetConfigListUUID]: targetConfigList,
     [projectConfigListUUID]: projectConfigList,
-    [sourcesPhaseUUID]: sourcesPhase,
-    [frameworksPhaseUUID]: frameworksPhase,
-    [resourcesPhaseUUID]: resourcesPhase,
-    [debugConfigUUID]: debugConfig,
-    [releaseConfigUUID]: releaseConfig,
     [projectDebugConfigUUID]: projectDebugConfig,
     [projectReleaseConfigUUID]: projectReleaseConfig,
+    ...variantProjectConfigs,
+    ...packageObjects,
+    ...targetObjects,
+    ...folderGroups,
     ...fileRefs,
     ...buildFiles,
   };
-  
-  // Add embed frameworks phase (for both iOS and macOS)
-  if (embedFrameworksPhaseUUID && embedFrameworksPhase) {
-    objects[embedFrameworksPhaseUUID] = embedFrameworksPhase;
-    if (embedFrameworksBuildFileUUID) {
-      // Already added to buildFiles above
-    }
-  }
 
   const projectJson = {
     archiveVersion: 1,
@@ -589,25 +856,158 @@ export async function generateXcodeProject(options: XcodeProjectOptions): Promis
     rootObject: rootObjectUUID,
   };
 
+  return { projectJson, targets };
+}
+
+/**
+ * Generate an Xcode project for the app, with one app target per platform
+ */
+export async function generateXcodeProject(options: XcodeProjectOptions): Promise<string> {
+  const { projectName } = options;
+  const { projectJson, targets } = await createXcodeProject(options);
+
+  // Create .xcodeproj directory
+  const xcodeProjectDir = path.join(options.projectDir, `${projectName}.xcodeproj`);
+  await fs.ensureDir(xcodeProjectDir);
+
   // Write project.pbxproj
   const pbxprojPath = path.join(xcodeProjectDir, 'project.pbxproj');
   const pbxprojContent = build(projectJson);
   await fs.writeFile(pbxprojPath, pbxprojContent);
 
-  // Create xcscheme for the target
+  // Create an xcscheme per target
   const schemesDir = path.join(xcodeProjectDir, 'xcshareddata', 'xcschemes');
   await fs.ensureDir(schemesDir);
-  
-  const schemeContent = generateScheme(projectName, targetUUID);
-  await fs.writeFile(path.join(schemesDir, `${projectName}.xcscheme`), schemeContent);
+
+  // Drop generated schemes for targets that no longer exist (e.g. after adding a platform)
+  const allPlatforms = Object.keys(PLATFORM_TARGET_SUFFIXES) as ApplePlatform[];
+  const generatedSchemeNames = [projectName, ...allPlatforms.map((platform) => appTargetName(projectName, platform, allPlatforms))];
+  for (const schemeName of generatedSchemeNames) {
+    if (!targets.some((target) => target.name === schemeName)) {
+      await fs.remove(path.join(schemesDir, `${schemeName}.xcscheme`));
+    }
+  }
+
+  for (const target of targets) {
+    const schemeContent = generateScheme(projectName, target.name, target.uuid);
+    await fs.writeFile(path.join(schemesDir, `${target.name}.xcscheme`), schemeContent);
+  }
 
   return xcodeProjectDir;
 }
 
+/**
+ * What a project contains, by name: its targets with their build configurations, compiled sources, resources
+ * and package products, its Swift packages and its shared schemes. Projects are compared by this rather than
+ * by object ID, since projects generated by older versions of the CLI have random IDs.
+ */
+export interface XcodeProjectSummary {
+  targets: Record<string, {
+    configurations: Record<string, Record<string, unknown>>;
+    sources: string[];
+    // Bundled files and folders, with the subfolder they are copied into, e.g. "fonts/Inter.ttf -> Fonts"
+    resources: string[];
+    // Linked Swift package products, e.g. "Sparkle (https://github.com/sparkle-project/Sparkle)"
+    packageProducts: string[];
+  }>;
+  configurations: string[];
+  // Swift package requirements by repository URL
+  packages: Record<string, Record<string, unknown>>;
+  schemes: string[];
+}
+
+function summarizeProjectJson(projectJson: any, schemes: string[]): XcodeProjectSummary {
+  const objects = projectJson.objects;
+  const rootObject = objects[projectJson.rootObject];
+
+  // Paths of files in groups are relative to the group
+  const parentGroups = new Map<string, string>();
+  for (const [uuid, object] of Object.entries<any>(objects)) {
+    if (object.isa === 'PBXGroup') {
+      for (const child of object.children ?? []) parentGroups.set(child, uuid);
+    }
+  }
+  const filePath = (uuid: string): string => {
+    const parts: string[] = [];
+    for (let current: string | undefined = uuid; current; current = parentGroups.get(current)) {
+      if (objects[current]?.path) parts.unshift(objects[current].path);
+    }
+    return parts.join('/');
+  };
+
+  const configurations = (listUUID: string): Record<string, Record<string, unknown>> =>
+    Object.fromEntries(objects[listUUID].buildConfigurations.map((uuid: string) =>
+      [objects[uuid].name, objects[uuid].buildSettings ?? {}]));
+
+  const targets: XcodeProjectSummary['targets'] = {};
+  for (const targetUUID of rootObject.targets) {
+    const target = objects[targetUUID];
+    const buildPhases = target.buildPhases.map((uuid: string) => objects[uuid]).filter(Boolean);
+    const sourcesPhase = buildPhases.find((phase: any) => phase.isa === 'PBXSourcesBuildPhase');
+    const phaseFiles = (phase: any): string[] =>
+      (phase?.files ?? []).map((uuid: string) => filePath(objects[uuid].fileRef));
+
+    const resources: string[] = [];
+    for (const phase of buildPhases) {
+      if (phase.isa === 'PBXResourcesBuildPhase') {
+        resources.push(...phaseFiles(phase));
+      } else if (phase.isa === 'PBXCopyFilesBuildPhase' && String(phase.dstSubfolderSpec) === '7') {
+        resources.push(...phaseFiles(phase).map((file) => `${file} -> ${phase.dstPath}`));
+      }
+    }
+
+    targets[target.name] = {
+      configurations: configurations(target.buildConfigurationList),
+      sources: phaseFiles(sourcesPhase).sort(),
+      resources: resources.sort(),
+      packageProducts: (target.packageProductDependencies ?? [])
+        .map((uuid: string) => objects[uuid])
+        .map((dependency: any) => `${dependency.productName} (${objects[dependency.package]?.repositoryURL})`)
+        .sort(),
+    };
+  }
+
+  return {
+    targets,
+    configurations: Object.keys(configurations(rootObject.buildConfigurationList)),
+    packages: Object.fromEntries((rootObject.packageReferences ?? [])
+      .map((uuid: string) => objects[uuid])
+      .map((reference: any) => [reference.repositoryURL, reference.requirement ?? {}])),
+    schemes: [...schemes].sort(),
+  };
+}
+
+/**
+ * Summary of the project generateXcodeProject would write for these options
+ */
+export async function summarizeExpectedXcodeProject(options: XcodeProjectOptions): Promise<XcodeProjectSummary> {
+  const { projectJson, targets } = await createXcodeProject(options);
+  // Round-trip through the pbxproj format so values compare the same way as a parsed project's
+  return summarizeProjectJson(parse(build(projectJson)), targets.map((target) => target.name));
+}
+
+/**
+ * Summary of the project on disk, or null when there is none
+ */
+export async function summarizeXcodeProject(projectDir: string, projectName: string): Promise<XcodeProjectSummary | null> {
+  const xcodeProjectDir = path.join(projectDir, `${projectName}.xcodeproj`);
+  const pbxprojPath = path.join(xcodeProjectDir, 'project.pbxproj');
+  if (!await fs.pathExists(pbxprojPath)) {
+    return null;
+  }
+
+  const schemesDir = path.join(xcodeProjectDir, 'xcshareddata', 'xcschemes');
+  const schemes = await fs.pathExists(schemesDir)
+    ? (await fs.readdir(schemesDir)).filter((file) => file.endsWith('.xcscheme')).map((file) => path.basename(file, '.xcscheme'))
+    : [];
+
+  return summarizeProjectJson(parse(await fs.readFile(pbxprojPath, 'utf-8')), schemes);
+}
+
 /**
  * Generate xcscheme file content
  */
-function generateScheme(projectName: string, targetUUID: string): string {
+function generateScheme(projectName: string, targetName: string, targetUUID: string): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Scheme
    LastUpgradeVersion = "1500"
@@ -626,7 +1026,7 @@ function generateScheme(projectName: string, targetUUID: string): string {
                BuildableIdentifier = "primary"
                BlueprintIdentifier = "${targetUUID}"
                BuildableName = "${projectName}.app"
-               BlueprintName = "${projectName}"
+               BlueprintName = "${targetName}"
                ReferencedContainer = "container:${projectName}.xcodeproj">
             </BuildableReference>
          </BuildActionEntry>
@@ -655,7 +1055,7 @@ function generateScheme(projectName: string, targetUUID: string): string {
             BuildableIdentifier = "primary"
             BlueprintIdentifier = "${targetUUID}"
             BuildableName = "${projectName}.app"
-            BlueprintName = "${projectName}"
+            BlueprintName = "${targetName}"
             ReferencedContainer = "container:${projectName}.xcodeproj">
          </BuildableReference>
       </BuildableProductRunnable>
@@ -672,7 +1072,7 @@ function generateScheme(projectName: string, targetUUID: string): string {
             BuildableIdentifier = "primary"
             BlueprintIdentifier = "${targetUUID}"
             BuildableName = "${projectName}.app"
-            BlueprintName = "${projectName}"
+            BlueprintName = "${targetName}"
             ReferencedContainer = "container:${projectName}.xcodeproj">
          </BuildableReference>
       </BuildableProductRunnable>
@@ -16,8 +16,11 @@ import { resolveIosSimulatorAsync } from './options/promptDevice.js';
 
 export type RunIosOptions = {
   projectName: string;
+  // Defaults to the project name.
+  scheme?: string;
   bundleId: string;
-  configuration: 'Debug' | 'Release';
+  configuration: string;
+  buildSettings?: Record<string, string>;
   buildDir: string;
   device?: string;
   shouldOpenSimulator: boolean;
@@ -25,9 +28,9 @@ export type RunIosOptions = {
 };
 
 export async function runIosAsync(projectDir: string, options: RunIosOptions): Promise<void> {
-  const { projectName, bundleId, configuration, buildDir, verbose } = options;
+  const { projectName, bundleId, configuration, buildSettings, buildDir, verbose } = options;
 
-  const scheme = projectName;
+  const scheme = options.scheme ?? projectName;
 
   const device: Device = await resolveIosSimulatorAsync({
     device: options.device,
@@ -45,6 +48,7 @@ export async function runIosAsync(projectDir: string, options: RunIosOptions): P
         configuration,
         derivedDataPath: buildDir,
         destination: `id=${device.udid}`,
+        buildSettings,
         verbose,
       }
     );
@@ -65,6 +69,7 @@ export async function runIosAsync(projectDir: string, options: RunIosOptions): P
       configuration,
       derivedDataPath: buildDir,
       destination: `id=${device.udid}`,
+      buildSettings,
     }
   );
 
@@ -6,14 +6,19 @@ import { buildAsync, getBuiltAppPathFromBuildSettings, showBuildSettingsAsync }
 
 export type RunMacosOptions = {
   projectName: string;
-  configuration: 'Debug' | 'Release';
+  // Defaults to the project name.
+  scheme?: string;
+  configuration: string;
+  destination?: string;
+  buildSettings?: Record<string, string>;
   buildDir: string;
   verbose: boolean;
 };
 
 export async function runMacosAsync(projectDir: string, options: RunMacosOptions): Promise<void> {
-  const { projectName, configuration, buildDir, verbose } = options;
-  const scheme = projectName;
+  const { projectName, configuration, buildSettings, buildDir, verbose } = options;
+  const scheme = options.scheme ?? projectName;
+  const destination = options.destination ?? 'platform=macOS,arch=arm64';
 
   const buildSpinner = ora('Building...').start();
   try {
@@ -23,7 +28,8 @@ export async function runMacosAsync(projectDir: string, options: RunMacosOptions
         scheme,
         configuration,
         derivedDataPath: buildDir,
-        destination: 'platform=macOS,arch=arm64',
+        destination,
+        buildSettings,
         verbose,
       }
     );
@@ -42,7 +48,8 @@ export async function runMacosAsync(projectDir: string, options: RunMacosOptions
       scheme,
       configuration,
       derivedDataPath: buildDir,
-      destination: 'platform=macOS,arch=arm64',
+      destination,
+      buildSettings,
     }
   );
 
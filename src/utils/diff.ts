@@ -0,0 +1,78 @@
+/**
+ * Line diff for showing file changes in the terminal
+ */
+
+import chalk from 'chalk';
+
+type DiffLine = { kind: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * Compute a line-by-line diff (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  // A trailing newline should not show up as an extra empty line
+  const a = before.replace(/\n$/, '').split('\n');
+  const b = after.replace(/\n$/, '').split('\n');
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i++] });
+    } else {
+      lines.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ kind: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Format a colored diff, keeping a few unchanged lines of context around each change
+ */
+export function formatDiff(before: string, after: string, context = 2): string {
+  const lines = diffLines(before, after);
+  const changed = lines.map((line) => line.kind !== 'same');
+
+  const output: string[] = [];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    const nearChange = changed
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some(Boolean);
+
+    if (!nearChange) {
+      if (!skipped) output.push(chalk.dim('  …'));
+      skipped = true;
+      return;
+    }
+
+    skipped = false;
+    if (line.kind === 'added') {
+      output.push(chalk.green(`+ ${line.text}`));
+    } else if (line.kind === 'removed') {
+      output.push(chalk.red(`- ${line.text}`));
+    } else {
+      output.push(chalk.dim(`  ${line.text}`));
+    }
+  });
+
+  return output.join('\n');
+}
@@ -162,7 +162,7 @@ async function verifyChecksum(filePath: string, expectedChecksum: string): Promi
 /**
  * Validate framework structure
  */
-async function validateFramework(frameworkPath: string): Promise<void> {
+export async function validateFramework(frameworkPath: string): Promise<void> {
   const infoPlistPath = path.join(frameworkPath, 'Info.plist');
   if (!await fs.pathExists(infoPlistPath)) {
     throw new Error('Invalid framework: Info.plist not found');
@@ -278,6 +278,8 @@ export async function downloadFrameworkWithCache(
     // Copy to project
     const projectFrameworkPath = path.join(projectDir, 'Frameworks', 'Obsydian.xcframework');
     await fs.ensureDir(path.dirname(projectFrameworkPath));
+    // Replace rather than copy over, so a linked local framework is never written to
+    await fs.remove(projectFrameworkPath);
     await fs.copy(cachedPath, projectFrameworkPath);
     return projectFrameworkPath;
   }
@@ -291,6 +293,7 @@ export async function downloadFrameworkWithCache(
   // Copy to project
   const projectFrameworkPath = path.join(projectDir, 'Frameworks', 'Obsydian.xcframework');
   await fs.ensureDir(path.dirname(projectFrameworkPath));
+  await fs.remove(projectFrameworkPath);
   await fs.copy(cachedFrameworkPath, projectFrameworkPath);
   
   return projectFrameworkPath;
@@ -0,0 +1,101 @@
+/**
+ * Git helpers
+ */
+
+import { exec } from './exec.js';
+import { CommandError } from './errors.js';
+
+/**
+ * Run git in a directory and return its trimmed output
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+  let result;
+  try {
+    result = await exec('git', args, { cwd, silent: true });
+  } catch {
+    throw new CommandError('GIT_NOT_FOUND', 'git is not installed or not on PATH');
+  }
+
+  if (result.exitCode !== 0) {
+    throw new CommandError('GIT_FAILED', `git ${args.join(' ')} failed: ${(result.stderr || result.stdout).trim()}`);
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Whether a directory is inside a git work tree
+ */
+export async function isGitRepository(cwd: string): Promise<boolean> {
+  try {
+    return await git(cwd, ['rev-parse', '--is-inside-work-tree']) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether git is installed
+ */
+export async function isGitAvailable(): Promise<boolean> {
+  try {
+    await git(process.cwd(), ['--version']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a repository in a directory
+ */
+export async function initRepository(cwd: string): Promise<void> {
+  await git(cwd, ['init']);
+}
+
+/**
+ * Stage and commit every change in the work tree
+ */
+export async function commitAll(cwd: string, message: string): Promise<void> {
+  await git(cwd, ['add', '-A']);
+  await git(cwd, ['commit', '-m', message]);
+}
+
+/**
+ * Tags reachable from HEAD
+ */
+export async function listTags(cwd: string): Promise<string[]> {
+  if (!await isGitRepository(cwd)) {
+    throw new CommandError('NOT_A_GIT_REPOSITORY', `${cwd} is not inside a git repository`);
+  }
+
+  const output = await git(cwd, ['tag', '--merged', 'HEAD']);
+  return output ? output.split('\n') : [];
+}
+
+/**
+ * Tags of a remote repository, without fetching it
+ */
+export async function listRemoteTags(url: string): Promise<string[]> {
+  const output = await git(process.cwd(), ['ls-remote', '--tags', '--refs', url]);
+  return output
+    ? output.split('\n').map((line) => line.split('\t')[1]?.replace(/^refs\/tags\//, '')).filter(Boolean)
+    : [];
+}
+
+/**
+ * Number of commits reachable from HEAD
+ */
+export async function getCommitCount(cwd: string): Promise<number> {
+  if (!await isGitRepository(cwd)) {
+    throw new CommandError('NOT_A_GIT_REPOSITORY', `${cwd} is not inside a git repository`);
+  }
+
+  return Number(await git(cwd, ['rev-list', '--count', 'HEAD']));
+}
+
+/**
+ * Shallow-clone a repository into a directory
+ */
+export async function cloneRepository(url: string, destination: string, ref?: string): Promise<void> {
+  await git(process.cwd(), ['clone', '--depth', '1', ...(ref ? ['--branch', ref] : []), url, destination]);
+}
@@ -0,0 +1,59 @@
+/**
+ * Glob patterns for project-relative paths, such as "src/**" or "src/vendor/*.{c,h}"
+ * Supports *, ?, ** and {a,b}; paths use forward slashes
+ */
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regular expression matching the whole path for a glob pattern
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches any number of directories, including none; a trailing "**" matches everything
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a path matches any of the patterns.
+ * A pattern that matches a directory matches everything inside it, so "src/vendor" covers src/vendor/**.
+ */
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+  const normalized = filePath.split('\\').join('/');
+  const parts = normalized.split('/');
+  const candidates = parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+
+  return patterns
+    .map((pattern) => globToRegExp(pattern.replace(/^\.\//, '').replace(/\/$/, '')))
+    .some((regExp) => candidates.some((candidate) => regExp.test(candidate)));
+}
@@ -4,6 +4,7 @@
  */
 
 import chalk from 'chalk';
+import { maskSecrets } from './secrets.js';
 
 export const Log = {
   log: (...args: unknown[]) => {
@@ -43,9 +44,9 @@ export const Log = {
     console.log(chalk.cyan(`[${current}/${total}]`), message);
   },
 
-  // For commands being run
+  // For commands being run (values loaded from .env files are masked)
   command: (cmd: string) => {
-    console.log(chalk.dim('$'), chalk.cyan(cmd));
+    console.log(chalk.dim('$'), chalk.cyan(maskSecrets(cmd)));
   },
 };
 
@@ -0,0 +1,39 @@
+/**
+ * Masking of sensitive values in CLI output
+ */
+
+const MASK = '*****';
+
+// Very short values ("1", "dev") are too common to mask without garbling output
+const MIN_MASKED_LENGTH = 4;
+
+const maskedValues = new Set<string>();
+
+/**
+ * Register a value that must never be printed verbatim
+ */
+export function addMaskedValue(value: string): void {
+  if (value.length >= MIN_MASKED_LENGTH) {
+    maskedValues.add(value);
+  }
+}
+
+/**
+ * Whether a value was registered for masking
+ */
+export function isMaskedValue(value: string): boolean {
+  return maskedValues.has(value);
+}
+
+/**
+ * Replace every registered value in the text
+ */
+export function maskSecrets(text: string): string {
+  let masked = text;
+  // Longest first so a value containing another is masked as a whole
+  const values = [...maskedValues].sort((a, b) => b.length - a.length);
+  for (const value of values) {
+    masked = masked.split(value).join(MASK);
+  }
+  return masked;
+}
@@ -1,11 +1,5 @@
 /**
- * Generate main.m template with Obsydian framework
- * Creates an app using the Obsydian framework API
- */
-
-export function generateMainWithFramework(projectName: string): string {
-  return `/**
- * ${projectName} - Built with Obsydian Framework
+ * {{projectName}} - Built with Obsydian Framework
  * 
  * This app uses the Obsydian framework for cross-platform UI components.
  */
@@ -24,7 +18,7 @@ int main(int argc, const char * argv[]) {
         
         // Create a window using Obsydian API
         Window window;
-        window.create(800, 600, "${projectName}");
+        window.create(800, 600, "{{projectName}}");
         window.show();
         
         // Create a button
@@ -38,12 +32,10 @@ int main(int argc, const char * argv[]) {
         // Run the app
         AppCallbacks callbacks;
         callbacks.onInit = []() {
-            std::cout << "${projectName} initialized!" << std::endl;
+            std::cout << "{{projectName}} initialized!" << std::endl;
         };
         
         app.run(callbacks);
     }
     return 0;
 }
-`;
-}
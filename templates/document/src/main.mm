@@ -0,0 +1,122 @@
+/**
+ * {{projectName}} - Document-based app built with Obsydian Framework
+ *
+ * Documents are plain text saved with the .{{documentExtension}} extension.
+ * The document types are declared in Info.plist (CFBundleDocumentTypes, UTExportedTypeDeclarations).
+ */
+
+#include <obsidian/obsidian.h>
+#import <Cocoa/Cocoa.h>
+#include <iostream>
+
+using namespace obsidian;
+
+/**
+ * A plain text document shown in its own window.
+ * NSDocumentClass in Info.plist refers to this class by name.
+ */
+@interface TextDocument : NSDocument
+@property (nonatomic, copy) NSString *text;
+@property (nonatomic, strong) NSTextView *textView;
+@end
+
+@implementation TextDocument
+
+- (instancetype)init {
+    if ((self = [super init])) {
+        _text = @"";
+    }
+    return self;
+}
+
++ (BOOL)autosavesInPlace {
+    return YES;
+}
+
+- (void)makeWindowControllers {
+    NSWindow *window = [[NSWindow alloc] initWithContentRect:NSMakeRect(0, 0, 640, 480)
+                                                   styleMask:NSWindowStyleMaskTitled | NSWindowStyleMaskClosable |
+                                                             NSWindowStyleMaskMiniaturizable | NSWindowStyleMaskResizable
+                                                     backing:NSBackingStoreBuffered
+                                                       defer:NO];
+    [window center];
+
+    NSScrollView *scrollView = [[NSScrollView alloc] initWithFrame:window.contentView.bounds];
+    scrollView.autoresizingMask = NSViewWidthSizable | NSViewHeightSizable;
+    scrollView.hasVerticalScroller = YES;
+
+    self.textView = [[NSTextView alloc] initWithFrame:scrollView.bounds];
+    self.textView.autoresizingMask = NSViewWidthSizable;
+    self.textView.string = self.text;
+    self.textView.allowsUndo = YES;
+    scrollView.documentView = self.textView;
+    window.contentView = scrollView;
+
+    [self addWindowController:[[NSWindowController alloc] initWithWindow:window]];
+}
+
+- (NSData *)dataOfType:(NSString *)typeName error:(NSError **)outError {
+    if (self.textView) {
+        self.text = self.textView.string;
+    }
+    return [self.text dataUsingEncoding:NSUTF8StringEncoding];
+}
+
+- (BOOL)readFromData:(NSData *)data ofType:(NSString *)typeName error:(NSError **)outError {
+    self.text = [[NSString alloc] initWithData:data encoding:NSUTF8StringEncoding] ?: @"";
+    self.textView.string = self.text;
+    return YES;
+}
+
+@end
+
+/**
+ * File menu with the standard document actions, which NSDocumentController handles
+ */
+static void installMainMenu() {
+    NSMenu *mainMenu = [[NSMenu alloc] init];
+
+    NSMenuItem *appItem = [mainMenu addItemWithTitle:@"" action:nil keyEquivalent:@""];
+    NSMenu *appMenu = [[NSMenu alloc] init];
+    [appMenu addItemWithTitle:@"Quit {{projectName}}" action:@selector(terminate:) keyEquivalent:@"q"];
+    appItem.submenu = appMenu;
+
+    NSMenuItem *fileItem = [mainMenu addItemWithTitle:@"File" action:nil keyEquivalent:@""];
+    NSMenu *fileMenu = [[NSMenu alloc] initWithTitle:@"File"];
+    [fileMenu addItemWithTitle:@"New" action:@selector(newDocument:) keyEquivalent:@"n"];
+    [fileMenu addItemWithTitle:@"Open…" action:@selector(openDocument:) keyEquivalent:@"o"];
+    [fileMenu addItem:[NSMenuItem separatorItem]];
+    [fileMenu addItemWithTitle:@"Close" action:@selector(performClose:) keyEquivalent:@"w"];
+    [fileMenu addItemWithTitle:@"Save…" action:@selector(saveDocument:) keyEquivalent:@"s"];
+    fileItem.submenu = fileMenu;
+
+    NSMenuItem *editItem = [mainMenu addItemWithTitle:@"Edit" action:nil keyEquivalent:@""];
+    NSMenu *editMenu = [[NSMenu alloc] initWithTitle:@"Edit"];
+    [editMenu addItemWithTitle:@"Undo" action:@selector(undo:) keyEquivalent:@"z"];
+    [editMenu addItemWithTitle:@"Redo" action:@selector(redo:) keyEquivalent:@"Z"];
+    [editMenu addItem:[NSMenuItem separatorItem]];
+    [editMenu addItemWithTitle:@"Cut" action:@selector(cut:) keyEquivalent:@"x"];
+    [editMenu addItemWithTitle:@"Copy" action:@selector(copy:) keyEquivalent:@"c"];
+    [editMenu addItemWithTitle:@"Paste" action:@selector(paste:) keyEquivalent:@"v"];
+    [editMenu addItemWithTitle:@"Select All" action:@selector(selectAll:) keyEquivalent:@"a"];
+    editItem.submenu = editMenu;
+
+    NSApp.mainMenu = mainMenu;
+}
+
+int main(int argc, const char * argv[]) {
+    @autoreleasepool {
+        App app;
+        app.initialize();
+
+        AppCallbacks callbacks;
+        callbacks.onInit = []() {
+            installMainMenu();
+            [[NSDocumentController sharedDocumentController] newDocument:nil];
+            std::cout << "{{projectName}} initialized!" << std::endl;
+        };
+
+        app.run(callbacks);
+    }
+    return 0;
+}
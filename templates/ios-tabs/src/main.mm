@@ -0,0 +1,69 @@
+/**
+ * {{projectName}} - iOS tab app
+ *
+ * The Obsydian framework does not have iOS components yet, so the tabs use UIKit directly.
+ */
+
+#import <UIKit/UIKit.h>
+
+/**
+ * A tab showing a centered title
+ */
+@interface TabViewController : UIViewController
+@end
+
+@implementation TabViewController
+
+- (void)viewDidLoad {
+    [super viewDidLoad];
+    self.view.backgroundColor = UIColor.systemBackgroundColor;
+
+    UILabel *label = [[UILabel alloc] init];
+    label.text = self.title;
+    label.font = [UIFont preferredFontForTextStyle:UIFontTextStyleLargeTitle];
+    label.translatesAutoresizingMaskIntoConstraints = NO;
+    [self.view addSubview:label];
+    [NSLayoutConstraint activateConstraints:@[
+        [label.centerXAnchor constraintEqualToAnchor:self.view.centerXAnchor],
+        [label.centerYAnchor constraintEqualToAnchor:self.view.centerYAnchor],
+    ]];
+}
+
+@end
+
+static UIViewController *makeTab(NSString *title, NSString *systemImage) {
+    TabViewController *controller = [[TabViewController alloc] init];
+    controller.title = title;
+
+    UINavigationController *navigation = [[UINavigationController alloc] initWithRootViewController:controller];
+    navigation.tabBarItem = [[UITabBarItem alloc] initWithTitle:title image:[UIImage systemImageNamed:systemImage] tag:0];
+    return navigation;
+}
+
+@interface AppDelegate : UIResponder <UIApplicationDelegate>
+@property (nonatomic, strong) UIWindow *window;
+@end
+
+@implementation AppDelegate
+
+- (BOOL)application:(UIApplication *)application didFinishLaunchingWithOptions:(NSDictionary *)launchOptions {
+    UITabBarController *tabs = [[UITabBarController alloc] init];
+    tabs.viewControllers = @[
+        makeTab(@"Home", @"house"),
+        makeTab(@"Search", @"magnifyingglass"),
+        makeTab(@"Settings", @"gear"),
+    ];
+
+    self.window = [[UIWindow alloc] initWithFrame:UIScreen.mainScreen.bounds];
+    self.window.rootViewController = tabs;
+    [self.window makeKeyAndVisible];
+    return YES;
+}
+
+@end
+
+int main(int argc, char * argv[]) {
+    @autoreleasepool {
+        return UIApplicationMain(argc, argv, nil, NSStringFromClass([AppDelegate class]));
+    }
+}
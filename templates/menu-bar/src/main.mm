@@ -0,0 +1,70 @@
+/**
+ * {{projectName}} - Menu bar utility built with Obsydian Framework
+ *
+ * LSUIElement in Info.plist hides the Dock icon; the app lives in the menu bar.
+ */
+
+#include <obsidian/obsidian.h>
+#import <Cocoa/Cocoa.h>
+#include <iostream>
+
+using namespace obsidian;
+
+/**
+ * Target for the status item's menu actions
+ */
+@interface StatusMenuController : NSObject
+@property (nonatomic, strong) NSStatusItem *statusItem;
+@property (nonatomic, assign) Window *window;
+@end
+
+@implementation StatusMenuController
+
+- (void)install {
+    self.statusItem = [[NSStatusBar systemStatusBar] statusItemWithLength:NSVariableStatusItemLength];
+    self.statusItem.button.title = @"{{projectName}}";
+
+    NSMenu *menu = [[NSMenu alloc] init];
+    NSMenuItem *openItem = [menu addItemWithTitle:@"Open {{projectName}}" action:@selector(openWindow:) keyEquivalent:@"o"];
+    openItem.target = self;
+    [menu addItem:[NSMenuItem separatorItem]];
+    [menu addItemWithTitle:@"Quit" action:@selector(terminate:) keyEquivalent:@"q"];
+    self.statusItem.menu = menu;
+}
+
+- (void)openWindow:(id)sender {
+    self.window->show();
+    [NSApp activateIgnoringOtherApps:YES];
+}
+
+@end
+
+int main(int argc, const char * argv[]) {
+    @autoreleasepool {
+        App app;
+        app.initialize();
+
+        // Created up front and shown from the menu bar
+        Window window;
+        window.create(360, 240, "{{projectName}}");
+
+        Button button;
+        button.create("Do Something", 105, 100, 150, 40);
+        button.setOnClick([]() {
+            std::cout << "Menu bar action" << std::endl;
+        });
+        button.addToWindow(window);
+
+        StatusMenuController *controller = [[StatusMenuController alloc] init];
+        controller.window = &window;
+
+        AppCallbacks callbacks;
+        callbacks.onInit = [controller]() {
+            [controller install];
+            std::cout << "{{projectName}} is running in the menu bar" << std::endl;
+        };
+
+        app.run(callbacks);
+    }
+    return 0;
+}
@@ -0,0 +1,71 @@
+/**
+ * {{projectName}} - Multi-window app built with Obsydian Framework
+ *
+ * The main window opens more windows; each one lives until the app quits.
+ */
+
+#include <obsidian/obsidian.h>
+#import <Cocoa/Cocoa.h>
+#include <iostream>
+#include <memory>
+#include <string>
+#include <vector>
+
+using namespace obsidian;
+
+/**
+ * A secondary window and the components inside it
+ */
+struct DocumentWindow {
+    Window window;
+    TextView textView;
+};
+
+int main(int argc, const char * argv[]) {
+    @autoreleasepool {
+        App app;
+        app.initialize();
+
+        std::vector<std::unique_ptr<DocumentWindow>> windows;
+
+        Window mainWindow;
+        mainWindow.create(480, 320, "{{projectName}}");
+
+        List windowList;
+        windowList.create(20, 80, 440, 220);
+        windowList.addToWindow(mainWindow);
+
+        Button newWindowButton;
+        newWindowButton.create("New Window", 20, 20, 150, 40);
+        newWindowButton.setOnClick([&windows, &windowList]() {
+            auto entry = std::make_unique<DocumentWindow>();
+            std::string title = "Window " + std::to_string(windows.size() + 1);
+
+            entry->window.create(600, 400, title);
+            entry->textView.create(20, 20, 560, 360);
+            entry->textView.setEditable(true);
+            entry->textView.addToWindow(entry->window);
+            entry->window.show();
+
+            windowList.addItem(title);
+            windows.push_back(std::move(entry));
+        });
+        newWindowButton.addToWindow(mainWindow);
+
+        windowList.setOnSelection([&windows](int index) {
+            if (index >= 0 && index < static_cast<int>(windows.size())) {
+                windows[index]->window.show();
+            }
+        });
+
+        mainWindow.show();
+
+        AppCallbacks callbacks;
+        callbacks.onInit = []() {
+            std::cout << "{{projectName}} initialized!" << std::endl;
+        };
+
+        app.run(callbacks);
+    }
+    return 0;
+}
@@ -0,0 +1,21 @@
+/**
+ * ObsydianBridge - the parts of the Obsydian C++ API the Swift code uses
+ *
+ * This header must stay plain Objective-C so Swift can import it; the C++ lives in ObsydianBridge.mm.
+ * Add a method here for each Obsydian feature the app needs.
+ */
+
+#import <Foundation/Foundation.h>
+
+NS_ASSUME_NONNULL_BEGIN
+
+@interface ObsydianBridge : NSObject
+
+/// Create a window with a button, then run the app until it quits
+- (void)runWithTitle:(NSString *)title
+         buttonTitle:(NSString *)buttonTitle
+             onClick:(void (^)(void))onClick;
+
+@end
+
+NS_ASSUME_NONNULL_END
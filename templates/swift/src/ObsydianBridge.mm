@@ -0,0 +1,45 @@
+/**
+ * ObsydianBridge - Objective-C++ wrapper around the Obsydian C++ API
+ */
+
+#import "ObsydianBridge.h"
+#include <obsidian/obsidian.h>
+#include <iostream>
+
+using namespace obsidian;
+
+@implementation ObsydianBridge
+
+- (void)runWithTitle:(NSString *)title
+         buttonTitle:(NSString *)buttonTitle
+             onClick:(void (^)(void))onClick {
+    @autoreleasepool {
+        // Initialize Obsydian app
+        App app;
+        app.initialize();
+
+        // Create a window using Obsydian API
+        Window window;
+        window.create(800, 600, title.UTF8String);
+        window.show();
+
+        // Create a button that calls back into Swift
+        void (^handler)(void) = [onClick copy];
+        Button button;
+        button.create(buttonTitle.UTF8String, 100, 100, 150, 40);
+        button.setOnClick([handler]() {
+            handler();
+        });
+        button.addToWindow(window);
+
+        // Run the app
+        AppCallbacks callbacks;
+        callbacks.onInit = []() {
+            std::cout << "{{projectName}} initialized!" << std::endl;
+        };
+
+        app.run(callbacks);
+    }
+}
+
+@end
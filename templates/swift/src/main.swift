@@ -0,0 +1,14 @@
+//
+// {{projectName}} - Built with Obsydian Framework
+//
+// The app code is Swift. Swift cannot call the Obsydian C++ API directly, so it goes
+// through ObsydianBridge, an Objective-C++ class exposed by {{projectName}}-Bridging-Header.h.
+//
+
+import Foundation
+
+let app = ObsydianBridge()
+
+app.run(withTitle: "{{projectName}}", buttonTitle: "Click Me!") {
+    print("Button clicked!")
+}
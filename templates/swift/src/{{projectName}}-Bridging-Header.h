@@ -0,0 +1,5 @@
+//
+// Objective-C headers visible to the Swift code in {{projectName}}
+//
+
+#import "ObsydianBridge.h"
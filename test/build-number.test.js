@@ -0,0 +1,98 @@
+/**
+ * Tests for autoIncrement build number sources
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { readConfig } from '../dist/project/config.js';
+import { incrementBuildNumber } from '../dist/project/build-number.js';
+
+const baseConfig = {
+  schemaVersion: 4,
+  name: 'Numbers',
+  bundleId: 'com.obsydian.numbers',
+  version: '1.0.0',
+  platforms: ['macos'],
+};
+
+/**
+ * Run a test against a temporary project with the given obsydian.json fields
+ */
+async function withProject(fields, run) {
+  const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'obsydian-build-number-'));
+  try {
+    await fs.writeJson(path.join(projectDir, 'obsydian.json'), { ...baseConfig, ...fields });
+    await run(projectDir);
+  } finally {
+    await fs.remove(projectDir);
+  }
+}
+
+async function increment(projectDir, source) {
+  const config = await readConfig(projectDir);
+  return incrementBuildNumber({ projectDir, config, platform: 'macos', bundleId: config.bundleId }, source);
+}
+
+function commit(projectDir, count) {
+  const git = (...args) => execFileSync('git', args, { cwd: projectDir, stdio: 'ignore' });
+  git('init', '-q');
+  for (let i = 0; i < count; i++) {
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '--allow-empty', '-m', `commit ${i}`);
+  }
+}
+
+test('local adds one to buildNumber and saves it', async () => {
+  await withProject({ buildNumber: 7 }, async (projectDir) => {
+    assert.equal(await increment(projectDir, 'local'), 8);
+    assert.equal((await fs.readJson(path.join(projectDir, 'obsydian.json'))).buildNumber, 8);
+    assert.equal(await increment(projectDir, 'local'), 9);
+  });
+});
+
+test('local starts from 1 without a buildNumber', async () => {
+  await withProject({}, async (projectDir) => {
+    assert.equal(await increment(projectDir, 'local'), 2);
+  });
+});
+
+test('git-commits uses the commit count', async () => {
+  await withProject({ buildNumber: 1 }, async (projectDir) => {
+    commit(projectDir, 3);
+    assert.equal(await increment(projectDir, 'git-commits'), 3);
+  });
+});
+
+test('git-commits never goes below buildNumber plus one', async () => {
+  await withProject({ buildNumber: 40 }, async (projectDir) => {
+    commit(projectDir, 3);
+    assert.equal(await increment(projectDir, 'git-commits'), 41);
+  });
+});
+
+test('unknown sources suggest the closest match', async () => {
+  await withProject({}, async (projectDir) => {
+    await assert.rejects(increment(projectDir, 'locl'), (error) => {
+      assert.equal(error.code, 'UNKNOWN_BUILD_NUMBER_SOURCE');
+      assert.match(error.message, /did you mean "local"/);
+      return true;
+    });
+  });
+});
+
+test('dynamic configs fail instead of reusing the build number', async () => {
+  await withProject({}, async (projectDir) => {
+    await fs.writeFile(
+      path.join(projectDir, 'obsydian.config.mjs'),
+      `export default ${JSON.stringify({ ...baseConfig, buildNumber: 5 })};\n`
+    );
+    await assert.rejects(increment(projectDir, 'local'), (error) => {
+      assert.equal(error.code, 'CONFIG_READ_ONLY');
+      assert.match(error.message, /set buildNumber in obsydian\.config\.mjs/);
+      return true;
+    });
+  });
+});
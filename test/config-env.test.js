@@ -0,0 +1,137 @@
+/**
+ * Tests for ${env:NAME} interpolation, .env files and masking of their values
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { interpolateEnv, loadEnvFiles, parseEnvFile } from '../dist/project/config-env.js';
+import { readConfig } from '../dist/project/config.js';
+import { addMaskedValue, isMaskedValue, maskSecrets } from '../dist/utils/secrets.js';
+
+/**
+ * Run a test against a temporary project directory
+ */
+async function withProject(run) {
+  const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'obsydian-env-'));
+  try {
+    await run(projectDir);
+  } finally {
+    await fs.remove(projectDir);
+  }
+}
+
+test('parseEnvFile reads quoted, unquoted and exported values', () => {
+  assert.deepEqual(parseEnvFile([
+    '# comment',
+    '',
+    'PLAIN=value # trailing comment',
+    'export EXPORTED = spaced',
+    'DOUBLE="line one\\nline two # kept"',
+    "SINGLE='no \\n escapes'",
+    'EMPTY=',
+    'not a variable',
+  ].join('\n')), {
+    PLAIN: 'value',
+    EXPORTED: 'spaced',
+    DOUBLE: 'line one\nline two # kept',
+    SINGLE: 'no \\n escapes',
+    EMPTY: '',
+  });
+});
+
+test('interpolateEnv replaces references in nested strings', () => {
+  const config = {
+    apple: { teamId: '${env:TEAM_ID}' },
+    submit: { production: { appStoreConnect: { keyId: 'key-${env:KEY_ID}' } } },
+    sources: ['${env:SOURCE_DIR}/**'],
+    buildNumber: 3,
+  };
+
+  assert.deepEqual(interpolateEnv(config, { TEAM_ID: 'ABCDE12345', KEY_ID: '42', SOURCE_DIR: 'app' }), {
+    apple: { teamId: 'ABCDE12345' },
+    submit: { production: { appStoreConnect: { keyId: 'key-42' } } },
+    sources: ['app/**'],
+    buildNumber: 3,
+  });
+});
+
+test('defaults apply to unset and empty variables', () => {
+  assert.deepEqual(
+    interpolateEnv({ a: '${env:UNSET:-fallback}', b: '${env:EMPTY:-fallback}', c: '${env:SET:-fallback}' }, { EMPTY: '', SET: 'set' }),
+    { a: 'fallback', b: 'fallback', c: 'set' }
+  );
+});
+
+test('missing variables are reported together with where they are used', () => {
+  assert.throws(
+    () => interpolateEnv({ apple: { teamId: '${env:TEAM_ID}' }, build: { a: { scheme: '${env:TEAM_ID}-${env:SCHEME}' } } }, {}),
+    (error) => {
+      assert.equal(error.code, 'CONFIG_ENV_MISSING');
+      assert.match(error.message, /TEAM_ID \(used by apple\.teamId, build\.a\.scheme\)/);
+      assert.match(error.message, /SCHEME \(used by build\.a\.scheme\)/);
+      assert.match(error.message, /pass --profile <name>/);
+      return true;
+    }
+  );
+
+  assert.throws(
+    () => interpolateEnv({ name: '${env:NAME}' }, {}, { profile: 'staging' }),
+    /Set them in your shell or in \.env, \.env\.staging, \.env\.local/
+  );
+});
+
+test('.env files load in order and their values are masked', async () => {
+  await withProject(async (projectDir) => {
+    await fs.writeFile(path.join(projectDir, '.env'), 'API_URL=https://api.example.com\nTOKEN=base-token\n');
+    await fs.writeFile(path.join(projectDir, '.env.staging'), 'TOKEN=staging-token\n');
+    await fs.writeFile(path.join(projectDir, '.env.local'), 'LOCAL=local-secret\n');
+
+    assert.deepEqual(await loadEnvFiles(projectDir, 'staging'), {
+      API_URL: 'https://api.example.com',
+      TOKEN: 'staging-token',
+      LOCAL: 'local-secret',
+    });
+    assert.ok(isMaskedValue('staging-token'));
+    assert.equal(maskSecrets('token=staging-token, url=https://api.example.com'), 'token=*****, url=*****');
+  });
+});
+
+test('short values are not masked', () => {
+  addMaskedValue('dev');
+  assert.equal(isMaskedValue('dev'), false);
+  assert.equal(maskSecrets('dev build'), 'dev build');
+});
+
+test('longer secrets are masked as a whole', () => {
+  addMaskedValue('secret');
+  addMaskedValue('secret-extended');
+  assert.equal(maskSecrets('secret-extended and secret'), '***** and *****');
+});
+
+test('readConfig prefers real environment variables over .env files', async () => {
+  await withProject(async (projectDir) => {
+    await fs.writeJson(path.join(projectDir, 'obsydian.json'), {
+      schemaVersion: 4,
+      name: 'Env',
+      bundleId: 'com.obsydian.${env:OBSYDIAN_TEST_SUFFIX}',
+      version: '${env:OBSYDIAN_TEST_VERSION}',
+      platforms: ['macos'],
+    });
+    await fs.writeFile(
+      path.join(projectDir, '.env.production'),
+      'OBSYDIAN_TEST_SUFFIX=fromfile\nOBSYDIAN_TEST_VERSION=1.0.0\n'
+    );
+
+    process.env.OBSYDIAN_TEST_VERSION = '2.0.0';
+    try {
+      const config = await readConfig(projectDir, { profile: 'production' });
+      assert.equal(config.bundleId, 'com.obsydian.fromfile');
+      assert.equal(config.version, '2.0.0');
+    } finally {
+      delete process.env.OBSYDIAN_TEST_VERSION;
+    }
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for obsydian.json schema migrations
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CURRENT_SCHEMA_VERSION, migrateConfig, readConfig, writeConfig } from '../dist/project/config.js';
+
+const baseConfig = {
+  name: 'Migrate',
+  bundleId: 'com.obsydian.migrate',
+  version: '1.0.0',
+  platforms: ['macos', 'ios'],
+};
+
+/**
+ * Run a test against a temporary project directory
+ */
+async function withProject(run) {
+  const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'obsydian-migrate-'));
+  try {
+    await run(projectDir);
+  } finally {
+    await fs.remove(projectDir);
+  }
+}
+
+test('configs without schemaVersion are upgraded from version 1', () => {
+  const { config, applied } = migrateConfig({
+    ...baseConfig,
+    apple: { minimumOsVersion: '14.0' },
+    submit: { production: { ascApiKeyPath: 'key.p8', ascApiKeyId: 'KEY', ascApiKeyIssuerId: 'ISSUER' } },
+  });
+
+  assert.deepEqual(applied.map((migration) => migration.to), [2, 3, 4]);
+  assert.equal(config.schemaVersion, CURRENT_SCHEMA_VERSION);
+  assert.deepEqual(config.submit.production, {
+    appStoreConnect: { keyPath: 'key.p8', keyId: 'KEY', issuerId: 'ISSUER' },
+  });
+  assert.deepEqual(config.apple, { macos: { deploymentTarget: '14.0' }, ios: { deploymentTarget: '14.0' } });
+  assert.deepEqual(config.sources, ['**']);
+});
+
+test('migrations start at the declared schemaVersion', () => {
+  const { config, applied } = migrateConfig({ schemaVersion: 3, ...baseConfig, sources: ['app/**'] });
+  assert.deepEqual(applied.map((migration) => migration.to), [4]);
+  assert.deepEqual(config.sources, ['app/**']);
+  assert.equal(Object.keys(config)[0], 'schemaVersion');
+});
+
+test('current configs are left alone', () => {
+  const current = { schemaVersion: CURRENT_SCHEMA_VERSION, ...baseConfig };
+  const { config, applied } = migrateConfig(current);
+  assert.deepEqual(applied, []);
+  assert.equal(config, current);
+});
+
+test('configs from a newer CLI are refused', () => {
+  assert.throws(
+    () => migrateConfig({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, ...baseConfig }),
+    (error) => error.code === 'CONFIG_TOO_NEW'
+  );
+});
+
+test('writeConfig refuses an unmigrated obsydian.json unless migrating', async () => {
+  await withProject(async (projectDir) => {
+    await fs.writeJson(path.join(projectDir, 'obsydian.json'), { schemaVersion: 3, ...baseConfig });
+    const { config } = migrateConfig(await fs.readJson(path.join(projectDir, 'obsydian.json')));
+
+    await assert.rejects(writeConfig(projectDir, config), (error) => error.code === 'CONFIG_MIGRATION_REQUIRED');
+    await writeConfig(projectDir, config, { migrate: true });
+    assert.equal((await fs.readJson(path.join(projectDir, 'obsydian.json'))).schemaVersion, CURRENT_SCHEMA_VERSION);
+  });
+});
+
+test('dynamic configs are read as the current schema', async () => {
+  await withProject(async (projectDir) => {
+    // No schemaVersion, which in obsydian.json would mean version 1
+    await fs.writeFile(path.join(projectDir, 'obsydian.config.mjs'), `export default ${JSON.stringify(baseConfig)};\n`);
+    const config = await readConfig(projectDir);
+    assert.equal(config.schemaVersion, CURRENT_SCHEMA_VERSION);
+    assert.equal(config.sources, undefined);
+  });
+});
+
+test('dynamic config functions receive the migrated obsydian.json', async () => {
+  await withProject(async (projectDir) => {
+    await fs.writeJson(path.join(projectDir, 'obsydian.json'), { schemaVersion: 3, ...baseConfig });
+    await fs.writeFile(path.join(projectDir, 'obsydian.config.mjs'), 'export default (config) => ({ ...config, version: "2.0.0" });\n');
+    const config = await readConfig(projectDir);
+    assert.equal(config.version, '2.0.0');
+    assert.deepEqual(config.sources, ['**']);
+  });
+});
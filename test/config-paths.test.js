@@ -0,0 +1,96 @@
+/**
+ * Tests for the dotted paths used by obsydian config get/set/unset
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  coerceConfigValue,
+  flattenConfig,
+  formatConfigPath,
+  getConfigValue,
+  parseConfigPath,
+  setConfigValue,
+  unsetConfigValue,
+} from '../dist/project/config-paths.js';
+import { getSchemaAtPath } from '../dist/project/config-validation.js';
+
+const config = {
+  name: 'Paths',
+  platforms: ['macos', 'ios'],
+  build: { production: { configuration: 'Release', buildSettings: { A: '1' } } },
+};
+
+test('paths parse keys and array indices', () => {
+  assert.deepEqual(parseConfigPath('build.production.configuration'), ['build', 'production', 'configuration']);
+  assert.deepEqual(parseConfigPath('platforms[1]'), ['platforms', 1]);
+  assert.deepEqual(parseConfigPath('platforms.1'), ['platforms', 1]);
+  assert.deepEqual(parseConfigPath('resources[0][1]'), ['resources', 0, 1]);
+  assert.equal(formatConfigPath(parseConfigPath('resources.0.path')), 'resources[0].path');
+});
+
+test('malformed paths are rejected', () => {
+  for (const input of ['', 'build..production', 'platforms[x]', 'a]b']) {
+    assert.throws(() => parseConfigPath(input), (error) => error.code === 'CONFIG_INVALID_PATH', input);
+  }
+});
+
+test('getConfigValue reads nested values and stops at missing parts', () => {
+  assert.equal(getConfigValue(config, ['build', 'production', 'configuration']), 'Release');
+  assert.equal(getConfigValue(config, ['platforms', 1]), 'ios');
+  assert.equal(getConfigValue(config, ['build', 'staging', 'configuration']), undefined);
+  assert.equal(getConfigValue(config, ['name', 'length', 'x']), undefined);
+});
+
+test('setConfigValue copies the config and creates missing objects', () => {
+  const updated = setConfigValue(config, ['build', 'staging', 'configuration'], 'Debug');
+  assert.deepEqual(updated.build.staging, { configuration: 'Debug' });
+  assert.equal(config.build.staging, undefined);
+  assert.equal(updated.build.production, config.build.production);
+});
+
+test('setConfigValue keeps existing keys in place', () => {
+  const updated = setConfigValue(config, ['name'], 'Renamed');
+  assert.deepEqual(Object.keys(updated), Object.keys(config));
+  assert.equal(updated.name, 'Renamed');
+});
+
+test('setConfigValue replaces and appends array items but does not leave gaps', () => {
+  assert.deepEqual(setConfigValue(config, ['platforms', 0], 'ios').platforms, ['ios', 'ios']);
+  assert.deepEqual(setConfigValue(config, ['platforms', 2], 'macos').platforms, ['macos', 'ios', 'macos']);
+  assert.throws(() => setConfigValue(config, ['platforms', 5], 'ios'), (error) => error.code === 'CONFIG_INVALID_PATH');
+});
+
+test('unsetConfigValue removes keys and array items without touching the original', () => {
+  assert.deepEqual(unsetConfigValue(config, ['build', 'production', 'buildSettings']).build, {
+    production: { configuration: 'Release' },
+  });
+  assert.deepEqual(unsetConfigValue(config, ['platforms', 0]).platforms, ['ios']);
+  assert.deepEqual(unsetConfigValue(config, ['build', 'staging']), config);
+  assert.deepEqual(config.build.production.buildSettings, { A: '1' });
+});
+
+test('command line values are coerced to the schema type', () => {
+  const coerce = (input, raw) => coerceConfigValue(raw, getSchemaAtPath(parseConfigPath(input)), input);
+
+  assert.equal(coerce('buildNumber', '12'), 12);
+  assert.equal(coerce('apple.teamId', '12345'), '12345');
+  assert.equal(coerce('build.production.autoIncrement', 'true'), true);
+  assert.equal(coerce('build.production.autoIncrement', 'git-commits'), 'git-commits');
+  assert.deepEqual(coerce('platforms', '["macos"]'), ['macos']);
+  assert.deepEqual(coerce('build.staging', '{"extends": "production"}'), { extends: 'production' });
+
+  assert.throws(() => coerce('buildNumber', 'twelve'), /buildNumber must be a number \(got "twelve"\)/);
+  assert.throws(() => coerce('platforms', 'macos'), /platforms must be an array given as JSON/);
+});
+
+test('flattenConfig lists leaf values by path', () => {
+  assert.deepEqual(flattenConfig({ ...config, exclude: [] }), [
+    ['name', 'Paths'],
+    ['platforms[0]', 'macos'],
+    ['platforms[1]', 'ios'],
+    ['build.production.configuration', 'Release'],
+    ['build.production.buildSettings.A', '1'],
+    ['exclude', []],
+  ]);
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for build and submit profile inheritance
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { fileURLToPath } from 'url';
+import {
+  deepMerge,
+  findProfileErrors,
+  resolveBuildProfile,
+  resolveSubmitProfile,
+} from '../dist/project/config-profiles.js';
+
+const cliPath = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'index.js');
+
+const baseConfig = {
+  schemaVersion: 4,
+  name: 'Profiles',
+  bundleId: 'com.obsydian.profiles',
+  version: '1.0.0',
+  platforms: ['macos'],
+};
+
+test('deepMerge merges objects and lets arrays and scalars override', () => {
+  assert.deepEqual(
+    deepMerge(
+      { configuration: 'Release', buildSettings: { A: '1', B: '2' }, platforms: ['macos', 'ios'] },
+      { buildSettings: { B: '3' }, platforms: ['ios'], clean: undefined }
+    ),
+    { configuration: 'Release', buildSettings: { A: '1', B: '3' }, platforms: ['ios'] }
+  );
+});
+
+test('profiles inherit along the extends chain', () => {
+  const config = {
+    ...baseConfig,
+    build: {
+      base: { configuration: 'Release', buildSettings: { A: '1' } },
+      ci: { extends: 'base', buildSettings: { B: '2' } },
+      production: { extends: 'ci', configuration: 'Debug', buildSettings: { A: '3' } },
+    },
+  };
+
+  assert.deepEqual(resolveBuildProfile(config, 'production'), {
+    configuration: 'Debug',
+    buildSettings: { A: '3', B: '2' },
+  });
+});
+
+test('unknown profiles suggest the closest match', () => {
+  const config = { ...baseConfig, submit: { production: {} } };
+  assert.throws(() => resolveSubmitProfile(config, 'prodution'), (error) => {
+    assert.equal(error.code, 'PROFILE_NOT_FOUND');
+    assert.match(error.message, /did you mean "production"/);
+    return true;
+  });
+});
+
+test('extending an unknown profile names the profile that extends it', () => {
+  const config = { ...baseConfig, build: { production: { extends: 'bsae' }, base: {} } };
+  assert.throws(() => resolveBuildProfile(config, 'production'), (error) => {
+    assert.equal(error.code, 'PROFILE_NOT_FOUND');
+    assert.match(error.message, /build\.production extends unknown profile "bsae" \(did you mean "base"\?\)/);
+    return true;
+  });
+});
+
+test('inheritance cycles are reported', () => {
+  const config = { ...baseConfig, build: { a: { extends: 'b' }, b: { extends: 'c' }, c: { extends: 'a' } } };
+  assert.throws(() => resolveBuildProfile(config, 'a'), (error) => {
+    assert.equal(error.code, 'PROFILE_CYCLE');
+    assert.match(error.message, /build\.a → build\.b → build\.c → build\.a/);
+    return true;
+  });
+});
+
+test('findProfileErrors checks every build and submit profile', () => {
+  const config = {
+    ...baseConfig,
+    build: { base: {}, production: { extends: 'base' } },
+    submit: { a: { extends: 'b' }, b: { extends: 'a' }, beta: { extends: 'missing' } },
+  };
+  assert.deepEqual(
+    findProfileErrors(config).map((error) => error.code),
+    ['PROFILE_CYCLE', 'PROFILE_CYCLE', 'PROFILE_NOT_FOUND']
+  );
+  assert.deepEqual(findProfileErrors({ ...config, submit: undefined }), []);
+});
+
+/**
+ * Run the CLI in a temporary project with the given obsydian.json fields
+ */
+async function withProject(fields, run) {
+  const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'obsydian-profiles-'));
+  try {
+    await fs.writeJson(path.join(projectDir, 'obsydian.json'), { ...baseConfig, ...fields });
+    const cli = (...args) => spawnSync(process.execPath, [cliPath, ...args], { cwd: projectDir, encoding: 'utf-8' });
+    await run(projectDir, cli);
+  } finally {
+    await fs.remove(projectDir);
+  }
+}
+
+const chain = { build: { base: { configuration: 'Release' }, a: { extends: 'base' }, b: { extends: 'a' } } };
+
+test('config unset refuses to remove a profile that others extend', async () => {
+  await withProject(chain, async (projectDir, cli) => {
+    const result = cli('config', 'unset', 'build.base');
+    assert.equal(result.status, 1);
+    assert.match(result.stderr + result.stdout, /build\.a extends unknown profile "base"/);
+    assert.ok((await fs.readJson(path.join(projectDir, 'obsydian.json'))).build.base);
+  });
+});
+
+test('config set refuses to create an inheritance cycle', async () => {
+  await withProject(chain, async (projectDir, cli) => {
+    const result = cli('config', 'set', 'build.a.extends', 'b');
+    assert.equal(result.status, 1);
+    assert.match(result.stderr + result.stdout, /Profile inheritance cycle/);
+    assert.equal((await fs.readJson(path.join(projectDir, 'obsydian.json'))).build.a.extends, 'base');
+  });
+});
+
+test('config set and unset allow edits that keep profiles resolvable', async () => {
+  await withProject(chain, async (projectDir, cli) => {
+    assert.equal(cli('config', 'unset', 'build.b').status, 0);
+    assert.equal(cli('config', 'set', 'build.a.extends', 'base').status, 0);
+    assert.deepEqual(Object.keys((await fs.readJson(path.join(projectDir, 'obsydian.json'))).build), ['base', 'a']);
+  });
+});
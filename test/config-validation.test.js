@@ -0,0 +1,101 @@
+/**
+ * Tests for obsydian.json schema validation and "did you mean" suggestions
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigValidationError, getSchemaAtPath, validateConfig } from '../dist/project/config-validation.js';
+import { assertValidConfig } from '../dist/project/config.js';
+import { closestMatch } from '../dist/utils/suggestions.js';
+
+const validConfig = {
+  schemaVersion: 4,
+  name: 'Valid',
+  bundleId: 'com.obsydian.valid',
+  version: '1.0.0',
+  platforms: ['macos'],
+};
+
+function messages(issues) {
+  return issues.map((issue) => issue.message);
+}
+
+test('a complete config is valid', () => {
+  assert.deepEqual(validateConfig(validConfig), { errors: [], warnings: [] });
+});
+
+test('missing required keys are errors', () => {
+  const { name: _name, platforms: _platforms, ...config } = validConfig;
+  assert.deepEqual(messages(validateConfig(config).errors), ['name is required', 'platforms is required']);
+});
+
+test('wrong types, enums, patterns and minimums are errors', () => {
+  const { errors } = validateConfig({
+    ...validConfig,
+    name: 42,
+    bundleId: 'com.obsydian/valid',
+    buildNumber: 0,
+    platforms: ['macos', 'tvos'],
+    build: { production: { configuration: 'Profile' } },
+  });
+
+  assert.deepEqual(messages(errors), [
+    'name must be a string (got 42)',
+    'bundleId must match /^[A-Za-z0-9.-]+$/ (got "com.obsydian/valid")',
+    'platforms[1] must be macos|ios|android|windows|linux (got "tvos")',
+    'buildNumber must be >= 1 (got 0)',
+    'build.production.configuration must be Debug|Release (got "Profile")',
+  ]);
+});
+
+test('empty arrays below minItems are errors', () => {
+  assert.deepEqual(messages(validateConfig({ ...validConfig, platforms: [] }).errors), [
+    'platforms must contain at least 1 item',
+  ]);
+});
+
+test('unknown keys are warnings with a suggestion', () => {
+  const { errors, warnings } = validateConfig({
+    ...validConfig,
+    bundleID: 'com.obsydian.valid',
+    build: { production: { configuraton: 'Release' } },
+    somethingElse: true,
+  });
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(messages(warnings), [
+    'Unknown key bundleID (did you mean bundleId?)',
+    'Unknown key build.production.configuraton (did you mean build.production.configuration?)',
+    'Unknown key somethingElse',
+  ]);
+});
+
+test('assertValidConfig throws every error at once', () => {
+  assert.throws(() => assertValidConfig({ ...validConfig, name: 1, version: 2 }), (error) => {
+    assert.ok(error instanceof ConfigValidationError);
+    assert.equal(error.code, 'CONFIG_INVALID');
+    assert.equal(error.issues.length, 2);
+    assert.match(error.message, /^Invalid obsydian\.json:\n {2}• name must be a string/);
+    return true;
+  });
+});
+
+test('getSchemaAtPath follows properties, profile maps and array items', () => {
+  assert.deepEqual(getSchemaAtPath(['build', 'production', 'configuration']).enum, ['Debug', 'Release']);
+  assert.equal(getSchemaAtPath(['platforms', 0]).enum.includes('ios'), true);
+});
+
+test('getSchemaAtPath suggests the closest key for typos', () => {
+  assert.throws(() => getSchemaAtPath(['apple', 'teamID']), (error) => {
+    assert.equal(error.code, 'CONFIG_UNKNOWN_KEY');
+    assert.match(error.message, /^Unknown key apple\.teamID \(did you mean apple\.teamId\?\)/);
+    return true;
+  });
+});
+
+test('closestMatch only suggests likely typos', () => {
+  assert.equal(closestMatch('prodution', ['staging', 'production']), 'production');
+  assert.equal(closestMatch('RELEASE', ['Debug', 'Release']), 'Release');
+  assert.equal(closestMatch('xyz', ['production', 'staging']), undefined);
+  assert.equal(closestMatch('anything', []), undefined);
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for Swift package requirements and URL handling
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  isSamePackageUrl,
+  packagesForPlatform,
+  swiftPackageName,
+  swiftPackageRequirement,
+} from '../dist/project/swift-packages.js';
+
+const url = 'https://github.com/sparkle-project/Sparkle';
+
+test('each requirement key maps to its Xcode requirement kind', () => {
+  assert.deepEqual(swiftPackageRequirement({ url, from: '2.6.0' }), { kind: 'upToNextMajorVersion', minimumVersion: '2.6.0' });
+  assert.deepEqual(swiftPackageRequirement({ url, exact: '2.6.4' }), { kind: 'exactVersion', version: '2.6.4' });
+  assert.deepEqual(swiftPackageRequirement({ url, branch: 'main' }), { kind: 'branch', branch: 'main' });
+  assert.deepEqual(swiftPackageRequirement({ url, revision: 'abc123' }), { kind: 'revision', revision: 'abc123' });
+});
+
+test('packages need exactly one requirement', () => {
+  assert.throws(() => swiftPackageRequirement({ url }), (error) => {
+    assert.equal(error.code, 'INVALID_PACKAGE');
+    assert.equal(error.message, `Swift package ${url} needs exactly one of from, exact, branch, revision`);
+    return true;
+  });
+  assert.throws(
+    () => swiftPackageRequirement({ url, from: '2.6.0', branch: 'main' }),
+    /needs exactly one of from, exact, branch, revision \(got from, branch\)/
+  );
+});
+
+test('package names come from the last URL component', () => {
+  assert.equal(swiftPackageName(url), 'Sparkle');
+  assert.equal(swiftPackageName(`${url}.git`), 'Sparkle');
+  assert.equal(swiftPackageName(`${url}/`), 'Sparkle');
+  assert.equal(swiftPackageName(' git@github.com:apple/swift-collections.git '), 'swift-collections');
+});
+
+test('URLs match regardless of case, trailing slash and .git', () => {
+  assert.ok(isSamePackageUrl(url, 'https://github.com/Sparkle-Project/sparkle.git'));
+  assert.ok(isSamePackageUrl(`${url}/`, ` ${url} `));
+  assert.ok(!isSamePackageUrl(url, 'https://github.com/sparkle-project/Sparkle-Extras'));
+  assert.ok(!isSamePackageUrl(url, 'https://gitlab.com/sparkle-project/Sparkle'));
+});
+
+test('packages without platforms apply to every platform', () => {
+  const everywhere = { url: 'https://github.com/apple/swift-collections', from: '1.0.0' };
+  const macosOnly = { url, from: '2.6.0', platforms: ['macos'] };
+  assert.deepEqual(packagesForPlatform([everywhere, macosOnly], 'macos'), [everywhere, macosOnly]);
+  assert.deepEqual(packagesForPlatform([everywhere, macosOnly], 'ios'), [everywhere]);
+});
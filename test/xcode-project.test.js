@@ -0,0 +1,99 @@
+/**
+ * Golden-file tests for the generated Xcode project
+ * Run with npm test; UPDATE_GOLDEN=1 npm test rewrites the golden files after an intended change
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { readConfig } from '../dist/project/config.js';
+import { prebuildProject } from '../dist/project/prebuild.js';
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const fixtureDir = path.join(testDir, 'fixtures', 'app');
+const goldenDir = path.join(testDir, 'golden', 'app');
+
+/**
+ * The project files that should match the golden copies, relative to the project directory
+ */
+async function generatedFiles(projectDir, projectName) {
+  const schemesDir = path.join(`${projectName}.xcodeproj`, 'xcshareddata', 'xcschemes');
+  const schemes = await fs.readdir(path.join(projectDir, schemesDir));
+  return [
+    path.join(`${projectName}.xcodeproj`, 'project.pbxproj'),
+    ...schemes.sort().map((scheme) => path.join(schemesDir, scheme)),
+    'Info-iOS.plist',
+    'Info-macOS.plist',
+  ];
+}
+
+/**
+ * Copy the fixture into a temporary directory and run prebuild in it
+ */
+async function prebuildFixture() {
+  const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'obsydian-golden-'));
+  try {
+    await fs.copy(fixtureDir, projectDir);
+    const config = await readConfig(projectDir);
+    await prebuildProject(projectDir, config);
+    return { projectDir, config };
+  } catch (error) {
+    await fs.remove(projectDir);
+    throw error;
+  }
+}
+
+test('prebuild generates the golden Xcode project', async () => {
+  const { projectDir, config } = await prebuildFixture();
+  try {
+    const files = await generatedFiles(projectDir, config.name);
+
+    if (process.env.UPDATE_GOLDEN) {
+      await fs.emptyDir(goldenDir);
+      for (const file of files) {
+        await fs.copy(path.join(projectDir, file), path.join(goldenDir, file));
+      }
+    }
+
+    const goldenFiles = await generatedFiles(goldenDir, config.name);
+    assert.deepEqual(files, goldenFiles);
+    for (const file of files) {
+      const generated = await fs.readFile(path.join(projectDir, file), 'utf-8');
+      const golden = await fs.readFile(path.join(goldenDir, file), 'utf-8');
+      assert.equal(generated, golden, `${file} differs from test/golden/app/${file}`);
+    }
+  } finally {
+    await fs.remove(projectDir);
+  }
+});
+
+test('prebuild generates the same project every time', async () => {
+  const first = await prebuildFixture();
+  const second = await prebuildFixture();
+  try {
+    for (const file of await generatedFiles(first.projectDir, first.config.name)) {
+      const a = await fs.readFile(path.join(first.projectDir, file), 'utf-8');
+      const b = await fs.readFile(path.join(second.projectDir, file), 'utf-8');
+      assert.equal(a, b, `${file} changed between runs`);
+    }
+  } finally {
+    await fs.remove(first.projectDir);
+    await fs.remove(second.projectDir);
+  }
+});
+
+test('prebuild leaves an up-to-date project unchanged', async () => {
+  const { projectDir, config } = await prebuildFixture();
+  try {
+    const files = await generatedFiles(projectDir, config.name);
+    const before = await Promise.all(files.map((file) => fs.readFile(path.join(projectDir, file), 'utf-8')));
+    await prebuildProject(projectDir, await readConfig(projectDir));
+    const after = await Promise.all(files.map((file) => fs.readFile(path.join(projectDir, file), 'utf-8')));
+    assert.deepEqual(after, before);
+  } finally {
+    await fs.remove(projectDir);
+  }
+});